@@ -137,36 +137,58 @@ describe('Stdio Bridge', () => {
 
     // --- ListTools ---
 
-    it('listTools returns exactly 3 tools', async () => {
+    it('listTools returns exactly 4 tools', async () => {
         const result = await client.listTools();
-        expect(result.tools).toHaveLength(3);
+        expect(result.tools).toHaveLength(4);
     });
 
     it('listTools returns correct tool names', async () => {
         const result = await client.listTools();
         const names = result.tools.map(t => t.name);
-        expect(names).toEqual(['debug_execute', 'debug_breakpoints', 'debug_inspect']);
+        expect(names).toEqual(['debug_execute', 'debug_breakpoints', 'debug_inspect', 'debug_output']);
     });
 
     it('debug_execute tool has correct action enum', async () => {
         const result = await client.listTools();
         const tool = result.tools.find(t => t.name === 'debug_execute')!;
         const actionProp = (tool.inputSchema.properties as any)?.action;
-        expect(actionProp.enum).toEqual(['launch', 'stop', 'continue', 'stepOver', 'stepIn', 'stepOut', 'listConfigurations']);
+        expect(actionProp.enum).toEqual([
+            'launch', 'attach', 'stop', 'continue', 'stepOver', 'stepIn', 'stepOut', 'stepBack',
+            'reverseContinue', 'restartFrame', 'restart', 'jumpTo', 'runToLine', 'pause', 'waitForStop',
+            'listConfigurations',
+        ]);
     });
 
     it('debug_breakpoints tool has correct action enum', async () => {
         const result = await client.listTools();
         const tool = result.tools.find(t => t.name === 'debug_breakpoints')!;
         const actionProp = (tool.inputSchema.properties as any)?.action;
-        expect(actionProp.enum).toEqual(['set', 'remove', 'list']);
+        expect(actionProp.enum).toEqual(['set', 'remove', 'list', 'exceptionFilters', 'setExceptionFilter']);
     });
 
     it('debug_inspect tool has correct action enum', async () => {
         const result = await client.listTools();
         const tool = result.tools.find(t => t.name === 'debug_inspect')!;
         const actionProp = (tool.inputSchema.properties as any)?.action;
-        expect(actionProp.enum).toEqual(['evaluate', 'stackTrace']);
+        expect(actionProp.enum).toEqual([
+            'evaluate', 'stackTrace', 'threads', 'scopes', 'variables', 'setVariable', 'disassemble', 'readMemory',
+            'writeMemory', 'source', 'modules', 'loadedSources', 'sessions',
+        ]);
+    });
+
+    it('debug_output tool has correct action enum', async () => {
+        const result = await client.listTools();
+        const tool = result.tools.find(t => t.name === 'debug_output')!;
+        const actionProp = (tool.inputSchema.properties as any)?.action;
+        expect(actionProp.enum).toEqual(['read', 'tail', 'clear', 'logpoints']);
+    });
+
+    it('debug_output limit must be a positive integer', async () => {
+        const result = await client.listTools();
+        const tool = result.tools.find(t => t.name === 'debug_output')!;
+        const limitProp = (tool.inputSchema.properties as any)?.limit;
+        expect(limitProp.type).toBe('integer');
+        expect(limitProp.minimum).toBe(1);
     });
 
     it('all tools require action parameter', async () => {
@@ -112,7 +112,8 @@ const serverInstructions = `This server controls VS Code's debugger. Typical wor
 2. Launch the program with debug_execute (action: "launch")
 3. When stopped at a breakpoint, inspect state with debug_inspect
 4. Step through code with debug_execute (stepOver/stepIn/stepOut)
-5. Stop the session with debug_execute (action: "stop")
+5. Read what the program printed with debug_output
+6. Stop the session with debug_execute (action: "stop")
 
 The program must be paused (at a breakpoint or after a step) before you can inspect state or step. All file paths must be absolute.`;
 
@@ -130,23 +131,52 @@ const server = new Server(
 );
 
 const executeDescription = `Control debug session execution. Actions:
-- listConfigurations: List available launch.json configurations. Returns configuration names. Call this before launch to verify the correct configuration name.
-- launch: Start a debug session using a launch.json configuration. Returns the stopped location if a breakpoint is hit, or a status message if the program is still running after 10s.
+- listConfigurations: List available launch.json configurations and compounds from every workspace folder. Returns each configuration's name, type, request and folder (omitted for workspace-level configurations); compounds have type "compound" and list their member configurations. Call this before launch to verify the correct configuration name.
+- launch: Start a debug session using a launch.json configuration or compound. Variables such as \${workspaceFolder}, \${file}, \${env:X} and \${config:X} are resolved like F5; \${command:...} and command inputs are left for VS Code to run; promptString/pickString inputs and process pickers (\${command:pickProcess}) are rejected because they need interactive input. Without launch.json, pass an inline "configuration" object, or the shorthand "program" (+ optional "args" and "runtime": node/python). Per-call overrides: args (replaced), env (merged), cwd, stopOnEntry; not available for compounds. Returns the stopped location if a breakpoint is hit, or a status message if the program is still running after "timeout" seconds, plus the resolved "configuration" that was started.
+- attach: Attach to an already-running process. Set debugType (node, python, go, java, cppdbg, lldb) and either port (plus optional host) of the debug listener (Node inspector, debugpy, Delve, JDWP) or processId of a local process. Returns the stopped location if the process pauses right away, otherwise reports it as running as soon as the session is ready, plus the attach configuration used.
 - continue: Resume execution until the next breakpoint. Returns the new stopped location.
 - stepOver/stepIn/stepOut: Step through code. Returns the new stopped location and stack trace.
+- stepBack/reverseContinue: Step or run backwards (reverse debugging) to find where bad state was first written without relaunching. Only available when the debug adapter supports stepping back (e.g. rr, CodeLLDB replay); otherwise the response explains that it can't. Returns the stopped location like continue.
+- restartFrame: Rerun the stack frame given by frameId (default: the top frame) from its start, e.g. after changing a variable. Only available when the debug adapter supports restarting frames. Waits for the next stop like continue.
+- restart: Restart the debug session (after an edit, instead of stop + launch), keeping breakpoints. Waits for the next stop like launch.
+- jumpTo: Move the instruction pointer to "line" (in "file", default: the current file) within the current frame without running the code in between, e.g. to skip a failing call or rerun a block after changing a variable. Only available when the debug adapter supports goto targets. Returns the new location.
+- runToLine: Continue until file:line is reached, using a temporary breakpoint that is removed automatically once the program stops, the wait times out or the session ends, so the breakpoint list stays clean. Set ignoreBreakpoints to continue past other breakpoints on the way. Returns the stopped location and whether the target line was reached.
+- pause: Interrupt the running program, e.g. one stuck in an infinite loop or deadlock. Pauses the thread given by threadId, otherwise all threads. Returns the stopped location like continue, so you can see where the program was spinning.
+- waitForStop: Block until the program stops (breakpoint, exception, ...) or the session terminates, without resuming it. Use it after a launch/continue reported the program as running. Returns immediately if the program is already paused.
 - stop: End the debug session.
-Requires an active debug session for all actions except launch and listConfigurations.`;
+launch, attach, continue, step*, reverseContinue, restartFrame, restart, jumpTo, runToLine, pause and waitForStop wait at most "timeout" seconds (default: the mcpDebug.stopTimeout setting, 10s) before reporting the program as running.
+Requires an active debug session for all actions except launch and listConfigurations. Pass sessionId (see debug_inspect sessions) to act on a specific session when several are running; otherwise the active session is used.`;
 
-const breakpointsDescription = `Manage source breakpoints in VS Code. Actions:
-- set: Add a breakpoint at a file:line. Returns confirmation with the location.
-- remove: Remove a breakpoint at a file:line. Returns the number removed.
-- list: List all current breakpoints. Returns file, line, enabled status, and any conditions.
-File paths must be absolute. Breakpoints persist across debug sessions.`;
+const breakpointsDescription = `Manage source, function and data breakpoints in VS Code. Actions:
+- set: Add a breakpoint at a file:line, or on a function name (functionName, e.g. "Parser.parse" or "handle_request") without knowing its location. With symbol (e.g. "MyClass.method" or "process_order") instead of line, the function or method is looked up with the language server (in file, or across the workspace when file is omitted) and the breakpoint goes on the first executable line of its body — prefer it to guessing line numbers. With variableName and variablesReference (from debug_inspect scopes/variables), sets a data breakpoint that stops when the variable is read or written (accessType, default write) — use it to find out who changes a field. Returns confirmation with the location. While a debug session runs, source breakpoints also report whether the debugger verified them ("verified"), the line it actually bound them to ("actualLine") and why it couldn't (in the message) — e.g. a breakpoint on a blank line is moved or never hit.
+- remove: Remove a breakpoint at a file:line, the function breakpoint for functionName, or the data breakpoints on variableName. Returns the number removed.
+- list: List all current breakpoints. Returns file, line, enabled status, verification status (verified, actualLine, message) from running sessions, and any conditions, plus function breakpoints in "functionBreakpoints" and data breakpoints (per session) in "dataBreakpoints".
+- exceptionFilters: List the exception filters the debug adapter offers (e.g. "Raised Exceptions", "Uncaught Exceptions") with whether each is enabled and its condition. Requires an active debug session.
+- setExceptionFilter: Enable or disable one exception filter (filterId from exceptionFilters), optionally with a condition if the filter supports one. Applies to the running session only and is not reflected in the VS Code Breakpoints view. Use it e.g. to temporarily break on raised exceptions when hunting a swallowed Python exception.
+File paths must be absolute. Source and function breakpoints persist across debug sessions; data breakpoints require a paused session and end with it. Data breakpoints set here are not shown in the VS Code Breakpoints view; they are set alongside the data breakpoints added in the VS Code UI, but are dropped (and no longer listed) when VS Code sends its own data breakpoints, e.g. when breakpoints are deactivated or one is added in the UI. Function and data breakpoints are only set when the debug adapter supports them; the response says so if it doesn't.`;
 
 const inspectDescription = `Inspect program state while paused at a breakpoint. Actions:
 - evaluate: Evaluate an expression (variable name, method call, condition) in the current stack frame. Returns the result value and type. Any stdout/stderr produced during evaluation (e.g. from print()) is captured in the "output" and "stderr" response fields.
 - stackTrace: Get the current call stack. Returns an array of frames with file, line, column, and function name.
-Requires an active debug session that is paused.`;
+- threads: List all threads with their name, whether they are paused, and the top frame of paused threads. Also reports which thread triggered the last stop (lastStop.threadId) — pass it as threadId to step or evaluate on that thread.
+- scopes: List the scopes (locals, closure, globals, ...) of a stack frame. Variables of non-expensive scopes are expanded to "depth" levels (default 1).
+- variables: Expand a variablesReference returned by evaluate, scopes or variables. Walks nested structures to "depth" levels, returns at most "maxChildren" children per level, and marks references back to an ancestor as circular (by reference, memoryReference or evaluateName, compared in the frame the variablesReference came from). Use start/count/filter to page through large arrays.
+- setVariable: Change a value while paused and return its new value and type. Either pass variablesReference (of the containing scope or structure, from scopes/variables) plus variableName, or an assignable expression (e.g. "user.age" or "items[0]") evaluated in frameId (default: the top frame). "value" is an expression in the program's language. Use it to patch state and test a hypothesis without language-specific assignment syntax in evaluate.
+- disassemble: List machine instructions (address, bytes, instruction, symbol, source line) around memoryReference, or around the current instruction pointer of the top frame when omitted; the instruction at the instruction pointer is marked "current". "offset" shifts the start by a number of instructions and "count" sets how many are returned (default 32). For native sessions (cppdbg, lldb, ...) whose adapter supports disassembly.
+- readMemory: Hex dump of "count" bytes (default 256) at memoryReference (from evaluate, variables or stackTrace results) plus a byte "offset". Only when the adapter supports reading memory.
+- writeMemory: Write "data" (hex string, e.g. "deadbeef") at memoryReference plus "offset". Disabled unless the mcpDebug.allowWriteMemory user setting is enabled, since it can corrupt the program.
+- source: Return the source lines around a stack frame (frameId, default the top frame) with the current line marked by ">". "contextLines" sets how many lines either side are included (default 10). Works for virtual sources without a file on disk (eval'd code, decompiled classes, remote sources) by fetching them from the debug adapter.
+- modules: List the modules (libraries, assemblies, Python modules) the session has loaded, with their paths, versions and symbol status. Use it when a breakpoint doesn't bind, to check whether its module has loaded. "start"/"count" page through long lists. Does not require a paused session.
+- loadedSources: List the sources the session has loaded, including generated and virtual sources that have only a sourceReference (eval'd code, decompiled classes, remote sources). Use it to check whether a script or source map has loaded. Does not require a paused session.
+- sessions: List all running debug sessions as a parent/child tree with their IDs, names, types, and whether they are active or paused. Does not require a paused session.
+Requires an active debug session that is paused (except sessions). Pass sessionId to inspect a specific session; otherwise the active session is used.`;
+
+const outputDescription = `Read the program output (stdout, stderr and debug console messages) captured from the debug adapter. Output is kept per session, also after the session ends, so you can see what the program printed before it crashed. Actions:
+- read: Return entries from "cursor" on (default: the oldest kept entry), at most "limit" (default 100). Pass the returned nextCursor to read only newer output next time.
+- tail: Return the last "limit" entries (default 20) and a nextCursor for reading what comes after.
+- clear: Drop the captured output of the session.
+- logpoints: Return the messages logged by logpoints (debug_breakpoints set with logMessage), grouped by logpoint location with their hit count. At most "limit" hits (default 100, the most recent) are returned per logpoint. Use it to run the program through with logpoints and read a structured trace instead of stopping at every line. Program output from the logpoint's own line is left out when it doesn't fit the logMessage template, so give templates some literal text (e.g. "total={total}" rather than "{total}").
+Each entry has seq, category (stdout, stderr, console, important, ...), output, timestamp and, when the adapter reports it, the file and line that produced it. Filter with category and pattern (a regular expression). The last 5000 entries per session are kept. Without sessionId, the active session is used, or else the session that produced output most recently.`;
 
 const tools = [
     {
@@ -155,11 +185,30 @@ const tools = [
         inputSchema: {
             type: "object",
             properties: {
-                action: { type: "string", enum: ["launch", "stop", "continue", "stepOver", "stepIn", "stepOut", "listConfigurations"], description: "The execution action to perform" },
-                configurationName: { type: "string", description: "Name of the launch.json configuration to use (only for launch). If omitted with multiple configs, returns the available names so you can choose." },
+                action: { type: "string", enum: ["launch", "attach", "stop", "continue", "stepOver", "stepIn", "stepOut", "stepBack", "reverseContinue", "restartFrame", "restart", "jumpTo", "runToLine", "pause", "waitForStop", "listConfigurations"], description: "The execution action to perform" },
+                configurationName: { type: "string", description: "Name of the launch.json configuration or compound to use (only for launch). If omitted with multiple configs, returns the available names so you can choose." },
                 noDebug: { type: "boolean", description: "If true, launch without debugging (only for launch)" },
-                threadId: { type: "number", description: "Thread ID to operate on (for continue/step*)" },
-                granularity: { type: "string", enum: ["statement", "line", "instruction"], description: "Stepping granularity (for step* actions)" },
+                threadId: { type: "number", description: "Thread ID to operate on (for continue/step*/stepBack/reverseContinue/jumpTo/pause)" },
+                granularity: { type: "string", enum: ["statement", "line", "instruction"], description: "Stepping granularity (for step* actions, including stepBack)" },
+                sessionId: { type: "string", description: "ID of the debug session to act on (from debug_inspect sessions). If omitted, uses the active session." },
+                debugType: { type: "string", enum: ["node", "python", "go", "java", "cppdbg", "lldb"], description: "Debugger to attach with (required for attach)" },
+                host: { type: "string", description: "Host of the debug listener to attach to (for attach, default localhost)" },
+                port: { type: "number", description: "Port of the debug listener to attach to (for attach)" },
+                processId: { type: "number", description: "PID of a local process to attach to (for attach)" },
+                program: { type: "string", description: "Absolute path to the program to debug (launch shorthand without launch.json, or attach with debugType cppdbg)" },
+                configuration: { type: "object", description: "Inline debug configuration to launch instead of a launch.json entry (for launch). Must include \"type\"; \"request\" defaults to \"launch\"." },
+                args: { type: "array", items: { type: "string" }, description: "Command line arguments for the program (for launch). Replaces the configuration's args." },
+                runtime: { type: "string", enum: ["node", "python"], description: "Runtime for the program shorthand (for launch). Inferred from the file extension (.py, .js, .mjs, .cjs) if omitted; TypeScript needs a full configuration with a loader." },
+                env: { type: "object", additionalProperties: { type: "string" }, description: "Environment variables merged into the configuration's env (for launch)" },
+                cwd: { type: "string", description: "Working directory override (for launch)" },
+                stopOnEntry: { type: "boolean", description: "Stop on the first line of the program (for launch)" },
+                frameId: { type: "number", description: "Stack frame ID to restart (for restartFrame). If omitted, uses the top frame." },
+                file: { type: "string", description: "Absolute path of the file to run or jump to (required for runToLine; for jumpTo defaults to the current file)" },
+                line: { type: "number", description: "Line number to run or jump to (required for runToLine/jumpTo)" },
+                ignoreBreakpoints: { type: "boolean", description: "Continue past other breakpoints on the way (for runToLine)" },
+                snippet: { type: "boolean", description: "Include a few source lines around the stop location, with the current line marked by \">\", in stop responses" },
+                timeout: { type: "number", description: "Seconds to wait for the program to stop (for launch/attach/continue/step*/reverseContinue/restartFrame/restart/jumpTo/runToLine/pause/waitForStop). Defaults to the mcpDebug.stopTimeout setting." },
+                folder: { type: "string", description: "Workspace folder name or path (for launch/listConfigurations). Restricts configurations to that folder in multi-root workspaces." },
             },
             required: ["action"],
         },
@@ -170,12 +219,20 @@ const tools = [
         inputSchema: {
             type: "object",
             properties: {
-                action: { type: "string", enum: ["set", "remove", "list"], description: "The breakpoint action to perform" },
+                action: { type: "string", enum: ["set", "remove", "list", "exceptionFilters", "setExceptionFilter"], description: "The breakpoint action to perform" },
                 file: { type: "string", description: "Absolute path to the file (required for set/remove)" },
                 line: { type: "number", description: "Line number for the breakpoint (required for set/remove)" },
-                condition: { type: "string", description: "Breakpoint condition expression (only for set)" },
+                condition: { type: "string", description: "Breakpoint condition expression (for set), or exception filter condition (for setExceptionFilter)" },
                 hitCondition: { type: "string", description: "Hit count condition (only for set)" },
                 logMessage: { type: "string", description: "Log message instead of breaking (only for set)" },
+                functionName: { type: "string", description: "Function to break on, instead of file/line (for set/remove)" },
+                symbol: { type: "string", description: "Function or method (e.g. \"MyClass.method\") whose first body line gets the breakpoint, instead of line (for set)" },
+                variableName: { type: "string", description: "Variable to watch with a data breakpoint, instead of file/line (for set/remove)" },
+                variablesReference: { type: "number", description: "Reference of the scope or structure containing variableName (required for data breakpoints)" },
+                accessType: { type: "string", enum: ["read", "write", "readWrite"], description: "Access that triggers the data breakpoint (for set, default write)" },
+                filterId: { type: "string", description: "Exception filter ID from exceptionFilters (required for setExceptionFilter)" },
+                enabled: { type: "boolean", description: "Whether to enable or disable the exception filter (for setExceptionFilter, default true)" },
+                sessionId: { type: "string", description: "ID of the debug session whose adapter capabilities are checked (from debug_inspect sessions). If omitted, uses the active session." },
             },
             required: ["action"],
         },
@@ -186,13 +243,42 @@ const tools = [
         inputSchema: {
             type: "object",
             properties: {
-                action: { type: "string", enum: ["evaluate", "stackTrace"], description: "The inspection action to perform" },
-                expression: { type: "string", description: "Expression to evaluate (required for evaluate)" },
-                frameId: { type: "number", description: "Stack frame ID for evaluation context (for evaluate)" },
+                action: { type: "string", enum: ["evaluate", "stackTrace", "threads", "scopes", "variables", "setVariable", "disassemble", "readMemory", "writeMemory", "source", "modules", "loadedSources", "sessions"], description: "The inspection action to perform" },
+                expression: { type: "string", description: "Expression to evaluate (required for evaluate), or the expression to assign to (for setVariable)" },
+                frameId: { type: "number", description: "Stack frame ID (for evaluate/scopes/variables/setVariable). If omitted, uses the top frame (for variables, the frame the variablesReference came from)." },
                 context: { type: "string", enum: ["watch", "repl", "hover", "clipboard"], description: "Evaluation context: 'repl' (default) executes as code, 'watch' evaluates without side effects, 'hover' for quick inspection, 'clipboard' formats for copying" },
-                threadId: { type: "number", description: "Thread ID (for stackTrace)" },
+                threadId: { type: "number", description: "Thread ID (for evaluate/stackTrace/scopes). If omitted, uses the thread that last stopped." },
                 startFrame: { type: "number", description: "First frame to return (for stackTrace)" },
                 levels: { type: "number", description: "Maximum number of frames to return (for stackTrace)" },
+                variablesReference: { type: "number", description: "Reference of the structure to expand (required for variables), or that contains variableName (for setVariable)" },
+                depth: { type: "number", description: "How many levels of nested structures to expand (for scopes/variables, default 1)" },
+                maxChildren: { type: "number", description: "Maximum number of children returned per level (for scopes/variables, default 100)" },
+                start: { type: "number", description: "Index of the first child (for variables paging) or module (for modules paging) to return" },
+                count: { type: "number", description: "Number of children (for variables paging) or modules (for modules paging) to return, instructions (for disassemble, default 32) or bytes (for readMemory, default 256)" },
+                filter: { type: "string", enum: ["indexed", "named"], description: "Only return indexed (array elements) or named children (for variables)" },
+                variableName: { type: "string", description: "Name of the variable to change within variablesReference (for setVariable)" },
+                value: { type: "string", description: "New value, as an expression in the program's language (required for setVariable)" },
+                memoryReference: { type: "string", description: "Memory reference from evaluate/variables (memoryReference) or stackTrace (instructionPointerReference) results (for disassemble/readMemory/writeMemory)" },
+                offset: { type: "number", description: "Offset from memoryReference: in instructions for disassemble, in bytes for readMemory/writeMemory" },
+                data: { type: "string", description: "Bytes to write as a hex string (required for writeMemory)" },
+                contextLines: { type: "number", description: "Lines of source to include either side of the frame's line (for source, default 10)" },
+                sessionId: { type: "string", description: "ID of the debug session to inspect (from the sessions action). If omitted, uses the active session." },
+            },
+            required: ["action"],
+        },
+    },
+    {
+        name: "debug_output",
+        description: outputDescription,
+        inputSchema: {
+            type: "object",
+            properties: {
+                action: { type: "string", enum: ["read", "tail", "clear", "logpoints"], description: "The output action to perform" },
+                cursor: { type: "number", description: "Sequence number to read from, e.g. nextCursor of a previous call (for read)" },
+                limit: { type: "integer", minimum: 1, description: "Maximum number of entries to return (for read, default 100; for tail, default 20; per logpoint for logpoints, default 100)" },
+                category: { type: "string", description: "Only return entries of this category, e.g. stdout, stderr, console (for read/tail)" },
+                pattern: { type: "string", description: "Only return entries whose output matches this regular expression (for read/tail/logpoints)" },
+                sessionId: { type: "string", description: "ID of the debug session whose output to read. If omitted, uses the active session or the one that produced output most recently." },
             },
             required: ["action"],
         },
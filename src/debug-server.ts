@@ -1,5 +1,7 @@
 import * as net from 'net';
 import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { EventEmitter } from 'events';
 import { z } from 'zod';
@@ -14,7 +16,7 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 
 export interface DebugCommand {
-    command: 'debug_execute' | 'debug_breakpoints' | 'debug_inspect';
+    command: 'debug_execute' | 'debug_breakpoints' | 'debug_inspect' | 'debug_output';
     payload: any;
 }
 
@@ -25,68 +27,360 @@ interface ToolRequest {
 }
 
 interface StoppedState {
+    sessionId: string;
+    threadId: number;
     file: string;
     line: number;
     column: number;
     stackTrace: Array<{ id: number; name: string; file: string; line: number; column: number }>;
 }
 
+interface StopInfo {
+    threadId?: number;
+    reason?: string;
+    description?: string;
+    allThreadsStopped: boolean;
+    timestamp: number;
+}
+
+// Execution state of a debug session, maintained from the DAP messages seen by the tracker
+interface SessionState {
+    stoppedThreads: Set<number>;
+    allThreadsStopped: boolean;
+    lastStop?: StopInfo;
+    // Capabilities from the initialize response, updated by capabilities events
+    capabilities?: any;
+    // Enabled exception filters (filterId -> condition) from the last setExceptionBreakpoints request
+    exceptionFilters?: Map<string, string | undefined>;
+    // Data breakpoints set through MCP; setDataBreakpoints replaces the whole set each time
+    dataBreakpoints?: DataBreakpointEntry[];
+    // Our setDataBreakpoints requests not yet seen by the tracker; any other one comes from VS Code
+    ownDataBreakpointRequests?: number;
+    // The data breakpoints of VS Code's own last setDataBreakpoints request (set in its UI),
+    // sent along with ours so that our requests don't drop them
+    vscodeDataBreakpoints?: any[];
+    // The adapter's verdict on source breakpoints, keyed by "path:line" as requested,
+    // from setBreakpoints responses and breakpoint events
+    breakpointStatus?: Map<string, BreakpointStatus>;
+    // setBreakpoints requests awaiting a response, by request seq
+    pendingBreakpointRequests?: Map<number, { path: string; lines: number[] }>;
+    // Frame each variablesReference handed out since the last resume belongs to
+    variableFrames?: Map<number, number>;
+}
+
+interface BreakpointStatus {
+    id?: number;
+    verified: boolean;
+    line?: number;
+    message?: string;
+}
+
+interface DataBreakpointEntry {
+    dataId: string;
+    accessType: 'read' | 'write' | 'readWrite';
+    description: string;
+    variableName: string;
+    condition?: string;
+    hitCondition?: string;
+}
+
+// Stop reasons of breakpoints that runToLine can continue past
+const breakpointStopReasons = new Set(['breakpoint', 'function breakpoint', 'data breakpoint', 'instruction breakpoint']);
+
+// Commands that prompt in the VS Code UI when used as ${command:...} launch variables.
+// Other commands (e.g. python.interpreterPath) are left for VS Code to run.
+const interactiveCommands = new Set(['pickProcess', 'pickRemoteProcess', 'PickProcess', 'extension.pickNodeProcess']);
+
+// Languages whose line comments start with "#"; elsewhere it may start a private member ("#validate() {")
+const hashCommentLanguages = new Set(['python', 'ruby', 'perl', 'shellscript', 'r', 'powershell', 'coffeescript', 'julia', 'elixir']);
+
+// Symbol kinds a breakpoint can be placed in by symbol name
+const functionSymbolKinds = new Set([vscode.SymbolKind.Function, vscode.SymbolKind.Method, vscode.SymbolKind.Constructor]);
+
+// Expressions telling whether a variable (by evaluateName) is the same object as one
+// of its ancestors, for adapters that hand out a new variablesReference per expansion
+const identityExpressions: Record<string, (candidate: string, ancestors: string[]) => string> = {
+    'pwa-node': (candidate, ancestors) => `[${ancestors.map(a => `(${a})`).join(', ')}].includes(${candidate})`,
+    'python': (candidate, ancestors) => `id(${candidate}) in (${ancestors.map(a => `id(${a})`).join(', ')},)`,
+};
+for (const type of ['node', 'node-terminal', 'pwa-chrome', 'chrome', 'pwa-msedge', 'msedge', 'pwa-extensionHost', 'extensionHost']) {
+    identityExpressions[type] = identityExpressions['pwa-node'];
+}
+identityExpressions['debugpy'] = identityExpressions['python'];
+
+// DAP requests that resume execution of one thread (singleThread) or all threads
+const resumeCommands = new Set(['continue', 'next', 'stepIn', 'stepOut', 'stepBack', 'reverseContinue']);
+
+interface LaunchEntry {
+    config: any;
+    // Undefined for configurations defined at the workspace level (.code-workspace)
+    folder?: vscode.WorkspaceFolder;
+}
+
+interface VariableInfo {
+    name: string;
+    value: string;
+    type?: string;
+    variablesReference: number;
+    evaluateName?: string;
+    memoryReference?: string;
+    namedVariables?: number;
+    indexedVariables?: number;
+    children?: VariableInfo[];
+    // Set when only the first maxChildren children were returned
+    truncated?: boolean;
+    totalChildren?: number;
+    // Set when the structure refers back to one of its ancestors
+    circular?: boolean;
+}
+
+interface OutputEntry {
+    seq: number;
+    category: string;
+    output: string;
+    timestamp: number;
+    file?: string;
+    line?: number;
+    column?: number;
+    variablesReference?: number;
+}
+
+// DAP output events of one session. Kept after the session ends so the output
+// leading up to a crash can still be read.
+interface OutputBuffer {
+    sessionId: string;
+    sessionName: string;
+    entries: OutputEntry[];
+    nextSeq: number;
+    terminated: boolean;
+}
+
+// Parses a DAP memory address ("0x7ffe...", or decimal); undefined if it isn't numeric
+function parseAddress(address: string | undefined): bigint | undefined {
+    try {
+        return address ? BigInt(address) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// Returns the 1-based line of the first statement in a function body: past doc comments
+// (some language servers include them in the symbol range), decorators and a possibly
+// multi-line signature, then past blank lines, comments and docstrings
+export function firstBodyLine(document: vscode.TextDocument, range: vscode.Range): number {
+    // Lines starting with "*" only continue a comment inside /* ... */, elsewhere they
+    // may be generator methods ("*gen() {") or continued expressions ("* factor")
+    let inBlockComment = false;
+    const lineComment = hashCommentLanguages.has(document.languageId) ? /^(\/\/|#)/ : /^\/\//;
+    const isComment = (line: string) => {
+        const text = line.trim();
+        if (inBlockComment || text.startsWith('/*')) {
+            inBlockComment = !text.slice(inBlockComment ? 0 : 2).includes('*/');
+            return true;
+        }
+        return lineComment.test(text);
+    };
+    const last = Math.min(range.end.line, document.lineCount - 1);
+    let header = range.start.line;
+    while (header < last) {
+        const text = document.lineAt(header).text;
+        if (!isComment(text) && /[{:]\s*(\/\/.*|#.*)?$/.test(text)) {
+            break;
+        }
+        header++;
+    }
+
+    let docstringQuote: string | undefined;
+    for (let n = header + 1; n <= last; n++) {
+        const text = document.lineAt(n).text.trim();
+        if (docstringQuote) {
+            if (text.includes(docstringQuote)) {
+                docstringQuote = undefined;
+            }
+            continue;
+        }
+        if (!text || isComment(text)) {
+            continue;
+        }
+        const quote = text.match(/^("""|''')/)?.[1];
+        if (quote) {
+            // A docstring that doesn't close on its opening line
+            if (text.length < 6 || !text.endsWith(quote)) {
+                docstringQuote = quote;
+            }
+            continue;
+        }
+        if (text === '}') {
+            break;
+        }
+        return n + 1;
+    }
+    return header + 1;
+}
+
+// Matches the messages a logpoint template ("x = {x}") can produce: the literal
+// text around the interpolated {expressions}, which may expand to anything
+function logMessagePattern(logMessage: string): RegExp {
+    const literal = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const parts = logMessage.split(/\{[^}]*\}/).map(literal);
+    return new RegExp(`^${parts.join('[\\s\\S]*')}$`);
+}
+
+// Formats bytes as "address  hex bytes  |ascii|" lines of 16 bytes each
+function formatHexDump(address: string | undefined, bytes: Buffer): string[] {
+    const base = parseAddress(address) ?? 0n;
+    const lines: string[] = [];
+    for (let i = 0; i < bytes.length; i += 16) {
+        const chunk = bytes.subarray(i, i + 16);
+        const hex = [...chunk].map(b => b.toString(16).padStart(2, '0')).join(' ');
+        const ascii = [...chunk].map(b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+        lines.push(`0x${(base + BigInt(i)).toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  |${ascii}|`);
+    }
+    return lines;
+}
+
+const MAX_OUTPUT_ENTRIES = 5000;
+const MAX_OUTPUT_SESSIONS = 20;
+// How long an attached session must stay running after its configuration is done
+// before attach reports it as running, so a process that pauses right away
+// (e.g. node --inspect-brk) is still reported as stopped
+const ATTACH_SETTLE_MS = 1000;
+
 // Server-level instructions for LLMs
 const serverInstructions = `This server controls VS Code's debugger. Typical workflow:
 1. Set breakpoints with debug_breakpoints (action: "set")
 2. Launch the program with debug_execute (action: "launch")
 3. When stopped at a breakpoint, inspect state with debug_inspect
 4. Step through code with debug_execute (stepOver/stepIn/stepOut)
-5. Stop the session with debug_execute (action: "stop")
+5. Read what the program printed with debug_output
+6. Stop the session with debug_execute (action: "stop")
 
 The program must be paused (at a breakpoint or after a step) before you can inspect state or step. All file paths must be absolute.`;
 
 // Tool descriptions
 const executeDescription = `Control debug session execution. Actions:
-- listConfigurations: List available launch.json configurations. Returns configuration names. Call this before launch to verify the correct configuration name.
-- launch: Start a debug session using a launch.json configuration. Returns the stopped location if a breakpoint is hit, or a status message if the program is still running after 10s.
+- listConfigurations: List available launch.json configurations and compounds from every workspace folder. Returns each configuration's name, type, request and folder (omitted for workspace-level configurations); compounds have type "compound" and list their member configurations. Call this before launch to verify the correct configuration name.
+- launch: Start a debug session using a launch.json configuration or compound. Variables such as \${workspaceFolder}, \${file}, \${env:X} and \${config:X} are resolved like F5; \${command:...} and command inputs are left for VS Code to run; promptString/pickString inputs and process pickers (\${command:pickProcess}) are rejected because they need interactive input. Without launch.json, pass an inline "configuration" object, or the shorthand "program" (+ optional "args" and "runtime": node/python). Per-call overrides: args (replaced), env (merged), cwd, stopOnEntry; not available for compounds. Returns the stopped location if a breakpoint is hit, or a status message if the program is still running after "timeout" seconds, plus the resolved "configuration" that was started.
+- attach: Attach to an already-running process. Set debugType (node, python, go, java, cppdbg, lldb) and either port (plus optional host) of the debug listener (Node inspector, debugpy, Delve, JDWP) or processId of a local process. Returns the stopped location if the process pauses right away, otherwise reports it as running as soon as the session is ready, plus the attach configuration used.
 - continue: Resume execution until the next breakpoint. Returns the new stopped location.
 - stepOver/stepIn/stepOut: Step through code. Returns the new stopped location and stack trace.
+- stepBack/reverseContinue: Step or run backwards (reverse debugging) to find where bad state was first written without relaunching. Only available when the debug adapter supports stepping back (e.g. rr, CodeLLDB replay); otherwise the response explains that it can't. Returns the stopped location like continue.
+- restartFrame: Rerun the stack frame given by frameId (default: the top frame) from its start, e.g. after changing a variable. Only available when the debug adapter supports restarting frames. Waits for the next stop like continue.
+- restart: Restart the debug session (after an edit, instead of stop + launch), keeping breakpoints. Waits for the next stop like launch.
+- jumpTo: Move the instruction pointer to "line" (in "file", default: the current file) within the current frame without running the code in between, e.g. to skip a failing call or rerun a block after changing a variable. Only available when the debug adapter supports goto targets. Returns the new location.
+- runToLine: Continue until file:line is reached, using a temporary breakpoint that is removed automatically once the program stops, the wait times out or the session ends, so the breakpoint list stays clean. Set ignoreBreakpoints to continue past other breakpoints on the way. Returns the stopped location and whether the target line was reached.
+- pause: Interrupt the running program, e.g. one stuck in an infinite loop or deadlock. Pauses the thread given by threadId, otherwise all threads. Returns the stopped location like continue, so you can see where the program was spinning.
+- waitForStop: Block until the program stops (breakpoint, exception, ...) or the session terminates, without resuming it. Use it after a launch/continue reported the program as running. Returns immediately if the program is already paused.
 - stop: End the debug session.
-Requires an active debug session for all actions except launch and listConfigurations.`;
+launch, attach, continue, step*, reverseContinue, restartFrame, restart, jumpTo, runToLine, pause and waitForStop wait at most "timeout" seconds (default: the mcpDebug.stopTimeout setting, 10s) before reporting the program as running.
+Requires an active debug session for all actions except launch and listConfigurations. Pass sessionId (see debug_inspect sessions) to act on a specific session when several are running; otherwise the active session is used.`;
 
-const breakpointsDescription = `Manage source breakpoints in VS Code. Actions:
-- set: Add a breakpoint at a file:line. Returns confirmation with the location.
-- remove: Remove a breakpoint at a file:line. Returns the number removed.
-- list: List all current breakpoints. Returns file, line, enabled status, and any conditions.
-File paths must be absolute. Breakpoints persist across debug sessions.`;
+const breakpointsDescription = `Manage source, function and data breakpoints in VS Code. Actions:
+- set: Add a breakpoint at a file:line, or on a function name (functionName, e.g. "Parser.parse" or "handle_request") without knowing its location. With symbol (e.g. "MyClass.method" or "process_order") instead of line, the function or method is looked up with the language server (in file, or across the workspace when file is omitted) and the breakpoint goes on the first executable line of its body — prefer it to guessing line numbers. With variableName and variablesReference (from debug_inspect scopes/variables), sets a data breakpoint that stops when the variable is read or written (accessType, default write) — use it to find out who changes a field. Returns confirmation with the location. While a debug session runs, source breakpoints also report whether the debugger verified them ("verified"), the line it actually bound them to ("actualLine") and why it couldn't (in the message) — e.g. a breakpoint on a blank line is moved or never hit.
+- remove: Remove a breakpoint at a file:line, the function breakpoint for functionName, or the data breakpoints on variableName. Returns the number removed.
+- list: List all current breakpoints. Returns file, line, enabled status, verification status (verified, actualLine, message) from running sessions, and any conditions, plus function breakpoints in "functionBreakpoints" and data breakpoints (per session) in "dataBreakpoints".
+- exceptionFilters: List the exception filters the debug adapter offers (e.g. "Raised Exceptions", "Uncaught Exceptions") with whether each is enabled and its condition. Requires an active debug session.
+- setExceptionFilter: Enable or disable one exception filter (filterId from exceptionFilters), optionally with a condition if the filter supports one. Applies to the running session only and is not reflected in the VS Code Breakpoints view. Use it e.g. to temporarily break on raised exceptions when hunting a swallowed Python exception.
+File paths must be absolute. Source and function breakpoints persist across debug sessions; data breakpoints require a paused session and end with it. Data breakpoints set here are not shown in the VS Code Breakpoints view; they are set alongside the data breakpoints added in the VS Code UI, but are dropped (and no longer listed) when VS Code sends its own data breakpoints, e.g. when breakpoints are deactivated or one is added in the UI. Function and data breakpoints are only set when the debug adapter supports them; the response says so if it doesn't.`;
 
 const inspectDescription = `Inspect program state while paused at a breakpoint. Actions:
 - evaluate: Evaluate an expression (variable name, method call, condition) in the current stack frame. Returns the result value and type. Any stdout/stderr produced during evaluation (e.g. from print()) is captured in the "output" and "stderr" response fields.
 - stackTrace: Get the current call stack. Returns an array of frames with file, line, column, and function name.
-Requires an active debug session that is paused.`;
-
-// Zod schemas for the 3 tools
+- threads: List all threads with their name, whether they are paused, and the top frame of paused threads. Also reports which thread triggered the last stop (lastStop.threadId) — pass it as threadId to step or evaluate on that thread.
+- scopes: List the scopes (locals, closure, globals, ...) of a stack frame. Variables of non-expensive scopes are expanded to "depth" levels (default 1).
+- variables: Expand a variablesReference returned by evaluate, scopes or variables. Walks nested structures to "depth" levels, returns at most "maxChildren" children per level, and marks references back to an ancestor as circular (by reference, memoryReference or evaluateName, compared in the frame the variablesReference came from). Use start/count/filter to page through large arrays.
+- setVariable: Change a value while paused and return its new value and type. Either pass variablesReference (of the containing scope or structure, from scopes/variables) plus variableName, or an assignable expression (e.g. "user.age" or "items[0]") evaluated in frameId (default: the top frame). "value" is an expression in the program's language. Use it to patch state and test a hypothesis without language-specific assignment syntax in evaluate.
+- disassemble: List machine instructions (address, bytes, instruction, symbol, source line) around memoryReference, or around the current instruction pointer of the top frame when omitted; the instruction at the instruction pointer is marked "current". "offset" shifts the start by a number of instructions and "count" sets how many are returned (default 32). For native sessions (cppdbg, lldb, ...) whose adapter supports disassembly.
+- readMemory: Hex dump of "count" bytes (default 256) at memoryReference (from evaluate, variables or stackTrace results) plus a byte "offset". Only when the adapter supports reading memory.
+- writeMemory: Write "data" (hex string, e.g. "deadbeef") at memoryReference plus "offset". Disabled unless the mcpDebug.allowWriteMemory user setting is enabled, since it can corrupt the program.
+- source: Return the source lines around a stack frame (frameId, default the top frame) with the current line marked by ">". "contextLines" sets how many lines either side are included (default 10). Works for virtual sources without a file on disk (eval'd code, decompiled classes, remote sources) by fetching them from the debug adapter.
+- modules: List the modules (libraries, assemblies, Python modules) the session has loaded, with their paths, versions and symbol status. Use it when a breakpoint doesn't bind, to check whether its module has loaded. "start"/"count" page through long lists. Does not require a paused session.
+- loadedSources: List the sources the session has loaded, including generated and virtual sources that have only a sourceReference (eval'd code, decompiled classes, remote sources). Use it to check whether a script or source map has loaded. Does not require a paused session.
+- sessions: List all running debug sessions as a parent/child tree with their IDs, names, types, and whether they are active or paused. Does not require a paused session.
+Requires an active debug session that is paused (except sessions). Pass sessionId to inspect a specific session; otherwise the active session is used.`;
+
+const outputDescription = `Read the program output (stdout, stderr and debug console messages) captured from the debug adapter. Output is kept per session, also after the session ends, so you can see what the program printed before it crashed. Actions:
+- read: Return entries from "cursor" on (default: the oldest kept entry), at most "limit" (default 100). Pass the returned nextCursor to read only newer output next time.
+- tail: Return the last "limit" entries (default 20) and a nextCursor for reading what comes after.
+- clear: Drop the captured output of the session.
+- logpoints: Return the messages logged by logpoints (debug_breakpoints set with logMessage), grouped by logpoint location with their hit count. At most "limit" hits (default 100, the most recent) are returned per logpoint. Use it to run the program through with logpoints and read a structured trace instead of stopping at every line. Program output from the logpoint's own line is left out when it doesn't fit the logMessage template, so give templates some literal text (e.g. "total={total}" rather than "{total}").
+Each entry has seq, category (stdout, stderr, console, important, ...), output, timestamp and, when the adapter reports it, the file and line that produced it. Filter with category and pattern (a regular expression). The last 5000 entries per session are kept. Without sessionId, the active session is used, or else the session that produced output most recently.`;
+
+// Zod schemas for the 4 tools
 const executeInputSchema = {
-    action: z.enum(["launch", "stop", "continue", "stepOver", "stepIn", "stepOut", "listConfigurations"]).describe("The execution action to perform"),
-    configurationName: z.string().optional().describe("Name of the launch.json configuration to use (only for launch). If omitted with multiple configs, returns the available names so you can choose."),
+    action: z.enum(["launch", "attach", "stop", "continue", "stepOver", "stepIn", "stepOut", "stepBack", "reverseContinue", "restartFrame", "restart", "jumpTo", "runToLine", "pause", "waitForStop", "listConfigurations"]).describe("The execution action to perform"),
+    configurationName: z.string().optional().describe("Name of the launch.json configuration or compound to use (only for launch). If omitted with multiple configs, returns the available names so you can choose."),
     noDebug: z.boolean().optional().describe("If true, launch without debugging (only for launch)"),
-    threadId: z.number().optional().describe("Thread ID to operate on (for continue/step*). If omitted, uses the active thread."),
-    granularity: z.enum(["statement", "line", "instruction"]).optional().describe("Stepping granularity (for step* actions)"),
+    threadId: z.number().optional().describe("Thread ID to operate on (for continue/step*/stepBack/reverseContinue/jumpTo/pause). If omitted, uses the thread that last stopped; pause then pauses all threads."),
+    granularity: z.enum(["statement", "line", "instruction"]).optional().describe("Stepping granularity (for step* actions, including stepBack)"),
+    sessionId: z.string().optional().describe("ID of the debug session to act on (from debug_inspect sessions). If omitted, uses the active session."),
+    debugType: z.enum(["node", "python", "go", "java", "cppdbg", "lldb"]).optional().describe("Debugger to attach with (required for attach)"),
+    host: z.string().optional().describe("Host of the debug listener to attach to (for attach, default localhost)"),
+    port: z.number().optional().describe("Port of the debug listener to attach to (for attach)"),
+    processId: z.number().optional().describe("PID of a local process to attach to (for attach)"),
+    program: z.string().optional().describe("Absolute path to the program to debug (launch shorthand without launch.json, or attach with debugType cppdbg)"),
+    configuration: z.record(z.any()).optional().describe("Inline debug configuration to launch instead of a launch.json entry (for launch). Must include \"type\"; \"request\" defaults to \"launch\"."),
+    args: z.array(z.string()).optional().describe("Command line arguments for the program (for launch). Replaces the configuration's args."),
+    runtime: z.enum(["node", "python"]).optional().describe("Runtime for the program shorthand (for launch). Inferred from the file extension (.py, .js, .mjs, .cjs) if omitted; TypeScript needs a full configuration with a loader."),
+    env: z.record(z.string()).optional().describe("Environment variables merged into the configuration's env (for launch)"),
+    cwd: z.string().optional().describe("Working directory override (for launch)"),
+    stopOnEntry: z.boolean().optional().describe("Stop on the first line of the program (for launch)"),
+    frameId: z.number().optional().describe("Stack frame ID to restart (for restartFrame). If omitted, uses the top frame."),
+    file: z.string().optional().describe("Absolute path of the file to run or jump to (required for runToLine; for jumpTo defaults to the current file)"),
+    line: z.number().optional().describe("Line number to run or jump to (required for runToLine/jumpTo)"),
+    ignoreBreakpoints: z.boolean().optional().describe("Continue past other breakpoints on the way (for runToLine)"),
+    snippet: z.boolean().optional().describe("Include a few source lines around the stop location, with the current line marked by \">\", in stop responses"),
+    timeout: z.number().optional().describe("Seconds to wait for the program to stop (for launch/attach/continue/step*/reverseContinue/restartFrame/restart/jumpTo/runToLine/pause/waitForStop). Defaults to the mcpDebug.stopTimeout setting."),
+    folder: z.string().optional().describe("Workspace folder name or path (for launch/listConfigurations). Restricts configurations to that folder in multi-root workspaces."),
 };
 
 const breakpointsInputSchema = {
-    action: z.enum(["set", "remove", "list"]).describe("The breakpoint action to perform"),
+    action: z.enum(["set", "remove", "list", "exceptionFilters", "setExceptionFilter"]).describe("The breakpoint action to perform"),
     file: z.string().optional().describe("Absolute path to the file (required for set/remove)"),
     line: z.number().optional().describe("Line number for the breakpoint (required for set/remove)"),
-    condition: z.string().optional().describe("Breakpoint condition expression (only for set)"),
+    condition: z.string().optional().describe("Breakpoint condition expression (for set), or exception filter condition (for setExceptionFilter)"),
     hitCondition: z.string().optional().describe("Hit count condition (only for set)"),
     logMessage: z.string().optional().describe("Log message instead of breaking (only for set)"),
+    functionName: z.string().optional().describe("Function to break on, instead of file/line (for set/remove)"),
+    symbol: z.string().optional().describe("Function or method (e.g. \"MyClass.method\") whose first body line gets the breakpoint, instead of line (for set)"),
+    variableName: z.string().optional().describe("Variable to watch with a data breakpoint, instead of file/line (for set/remove)"),
+    variablesReference: z.number().optional().describe("Reference of the scope or structure containing variableName (required for data breakpoints)"),
+    accessType: z.enum(["read", "write", "readWrite"]).optional().describe("Access that triggers the data breakpoint (for set, default write)"),
+    filterId: z.string().optional().describe("Exception filter ID from exceptionFilters (required for setExceptionFilter)"),
+    enabled: z.boolean().optional().describe("Whether to enable or disable the exception filter (for setExceptionFilter, default true)"),
+    sessionId: z.string().optional().describe("ID of the debug session whose adapter capabilities are checked (from debug_inspect sessions). If omitted, uses the active session."),
 };
 
 const inspectInputSchema = {
-    action: z.enum(["evaluate", "stackTrace"]).describe("The inspection action to perform"),
-    expression: z.string().optional().describe("Expression to evaluate (required for evaluate)"),
-    frameId: z.number().optional().describe("Stack frame ID for evaluation context (for evaluate)"),
+    action: z.enum(["evaluate", "stackTrace", "threads", "scopes", "variables", "setVariable", "disassemble", "readMemory", "writeMemory", "source", "modules", "loadedSources", "sessions"]).describe("The inspection action to perform"),
+    expression: z.string().optional().describe("Expression to evaluate (required for evaluate), or the expression to assign to (for setVariable)"),
+    frameId: z.number().optional().describe("Stack frame ID (for evaluate/scopes/variables/setVariable). If omitted, uses the top frame (for variables, the frame the variablesReference came from)."),
     context: z.enum(["watch", "repl", "hover", "clipboard"]).optional().describe("Evaluation context: 'repl' (default) executes as code, 'watch' evaluates without side effects, 'hover' for quick inspection, 'clipboard' formats for copying"),
-    threadId: z.number().optional().describe("Thread ID (for stackTrace). If omitted, uses the active thread."),
+    threadId: z.number().optional().describe("Thread ID (for evaluate/stackTrace/scopes). If omitted, uses the thread that last stopped."),
     startFrame: z.number().optional().describe("First frame to return (for stackTrace)"),
     levels: z.number().optional().describe("Maximum number of frames to return (for stackTrace)"),
+    variablesReference: z.number().optional().describe("Reference of the structure to expand (required for variables), or that contains variableName (for setVariable)"),
+    depth: z.number().optional().describe("How many levels of nested structures to expand (for scopes/variables, default 1)"),
+    maxChildren: z.number().optional().describe("Maximum number of children returned per level (for scopes/variables, default 100)"),
+    start: z.number().optional().describe("Index of the first child (for variables paging) or module (for modules paging) to return"),
+    count: z.number().optional().describe("Number of children (for variables paging) or modules (for modules paging) to return, instructions (for disassemble, default 32) or bytes (for readMemory, default 256)"),
+    filter: z.enum(["indexed", "named"]).optional().describe("Only return indexed (array elements) or named children (for variables)"),
+    variableName: z.string().optional().describe("Name of the variable to change within variablesReference (for setVariable)"),
+    value: z.string().optional().describe("New value, as an expression in the program's language (required for setVariable)"),
+    memoryReference: z.string().optional().describe("Memory reference from evaluate/variables (memoryReference) or stackTrace (instructionPointerReference) results (for disassemble/readMemory/writeMemory)"),
+    offset: z.number().optional().describe("Offset from memoryReference: in instructions for disassemble, in bytes for readMemory/writeMemory"),
+    data: z.string().optional().describe("Bytes to write as a hex string (required for writeMemory)"),
+    contextLines: z.number().optional().describe("Lines of source to include either side of the frame's line (for source, default 10)"),
+    sessionId: z.string().optional().describe("ID of the debug session to inspect (from the sessions action). If omitted, uses the active session."),
+};
+
+const outputInputSchema = {
+    action: z.enum(["read", "tail", "clear", "logpoints"]).describe("The output action to perform"),
+    cursor: z.number().optional().describe("Sequence number to read from, e.g. nextCursor of a previous call (for read)"),
+    limit: z.number().int().min(1).optional().describe("Maximum number of entries to return (for read, default 100; for tail, default 20; per logpoint for logpoints, default 100)"),
+    category: z.string().optional().describe("Only return entries of this category, e.g. stdout, stderr, console (for read/tail)"),
+    pattern: z.string().optional().describe("Only return entries whose output matches this regular expression (for read/tail/logpoints)"),
+    sessionId: z.string().optional().describe("ID of the debug session whose output to read. If omitted, uses the active session or the one that produced output most recently."),
 };
 
 // JSON Schema versions for the /tcp endpoint (used by stdio bridge)
@@ -97,11 +391,30 @@ export const tools = [
         inputSchema: {
             type: "object",
             properties: {
-                action: { type: "string", enum: ["launch", "stop", "continue", "stepOver", "stepIn", "stepOut", "listConfigurations"], description: "The execution action to perform" },
-                configurationName: { type: "string", description: "Name of the launch.json configuration to use (only for launch). If omitted with multiple configs, returns the available names so you can choose." },
+                action: { type: "string", enum: ["launch", "attach", "stop", "continue", "stepOver", "stepIn", "stepOut", "stepBack", "reverseContinue", "restartFrame", "restart", "jumpTo", "runToLine", "pause", "waitForStop", "listConfigurations"], description: "The execution action to perform" },
+                configurationName: { type: "string", description: "Name of the launch.json configuration or compound to use (only for launch). If omitted with multiple configs, returns the available names so you can choose." },
                 noDebug: { type: "boolean", description: "If true, launch without debugging (only for launch)" },
-                threadId: { type: "number", description: "Thread ID to operate on (for continue/step*)" },
-                granularity: { type: "string", enum: ["statement", "line", "instruction"], description: "Stepping granularity (for step* actions)" },
+                threadId: { type: "number", description: "Thread ID to operate on (for continue/step*/stepBack/reverseContinue/jumpTo/pause)" },
+                granularity: { type: "string", enum: ["statement", "line", "instruction"], description: "Stepping granularity (for step* actions, including stepBack)" },
+                sessionId: { type: "string", description: "ID of the debug session to act on (from debug_inspect sessions). If omitted, uses the active session." },
+                debugType: { type: "string", enum: ["node", "python", "go", "java", "cppdbg", "lldb"], description: "Debugger to attach with (required for attach)" },
+                host: { type: "string", description: "Host of the debug listener to attach to (for attach, default localhost)" },
+                port: { type: "number", description: "Port of the debug listener to attach to (for attach)" },
+                processId: { type: "number", description: "PID of a local process to attach to (for attach)" },
+                program: { type: "string", description: "Absolute path to the program to debug (launch shorthand without launch.json, or attach with debugType cppdbg)" },
+                configuration: { type: "object", description: "Inline debug configuration to launch instead of a launch.json entry (for launch). Must include \"type\"; \"request\" defaults to \"launch\"." },
+                args: { type: "array", items: { type: "string" }, description: "Command line arguments for the program (for launch). Replaces the configuration's args." },
+                runtime: { type: "string", enum: ["node", "python"], description: "Runtime for the program shorthand (for launch). Inferred from the file extension (.py, .js, .mjs, .cjs) if omitted; TypeScript needs a full configuration with a loader." },
+                env: { type: "object", additionalProperties: { type: "string" }, description: "Environment variables merged into the configuration's env (for launch)" },
+                cwd: { type: "string", description: "Working directory override (for launch)" },
+                stopOnEntry: { type: "boolean", description: "Stop on the first line of the program (for launch)" },
+                frameId: { type: "number", description: "Stack frame ID to restart (for restartFrame). If omitted, uses the top frame." },
+                file: { type: "string", description: "Absolute path of the file to run or jump to (required for runToLine; for jumpTo defaults to the current file)" },
+                line: { type: "number", description: "Line number to run or jump to (required for runToLine/jumpTo)" },
+                ignoreBreakpoints: { type: "boolean", description: "Continue past other breakpoints on the way (for runToLine)" },
+                snippet: { type: "boolean", description: "Include a few source lines around the stop location, with the current line marked by \">\", in stop responses" },
+                timeout: { type: "number", description: "Seconds to wait for the program to stop (for launch/attach/continue/step*/reverseContinue/restartFrame/restart/jumpTo/runToLine/pause/waitForStop). Defaults to the mcpDebug.stopTimeout setting." },
+                folder: { type: "string", description: "Workspace folder name or path (for launch/listConfigurations). Restricts configurations to that folder in multi-root workspaces." },
             },
             required: ["action"],
         },
@@ -112,12 +425,20 @@ export const tools = [
         inputSchema: {
             type: "object",
             properties: {
-                action: { type: "string", enum: ["set", "remove", "list"], description: "The breakpoint action to perform" },
+                action: { type: "string", enum: ["set", "remove", "list", "exceptionFilters", "setExceptionFilter"], description: "The breakpoint action to perform" },
                 file: { type: "string", description: "Absolute path to the file (required for set/remove)" },
                 line: { type: "number", description: "Line number for the breakpoint (required for set/remove)" },
-                condition: { type: "string", description: "Breakpoint condition expression (only for set)" },
+                condition: { type: "string", description: "Breakpoint condition expression (for set), or exception filter condition (for setExceptionFilter)" },
                 hitCondition: { type: "string", description: "Hit count condition (only for set)" },
                 logMessage: { type: "string", description: "Log message instead of breaking (only for set)" },
+                functionName: { type: "string", description: "Function to break on, instead of file/line (for set/remove)" },
+                symbol: { type: "string", description: "Function or method (e.g. \"MyClass.method\") whose first body line gets the breakpoint, instead of line (for set)" },
+                variableName: { type: "string", description: "Variable to watch with a data breakpoint, instead of file/line (for set/remove)" },
+                variablesReference: { type: "number", description: "Reference of the scope or structure containing variableName (required for data breakpoints)" },
+                accessType: { type: "string", enum: ["read", "write", "readWrite"], description: "Access that triggers the data breakpoint (for set, default write)" },
+                filterId: { type: "string", description: "Exception filter ID from exceptionFilters (required for setExceptionFilter)" },
+                enabled: { type: "boolean", description: "Whether to enable or disable the exception filter (for setExceptionFilter, default true)" },
+                sessionId: { type: "string", description: "ID of the debug session whose adapter capabilities are checked (from debug_inspect sessions). If omitted, uses the active session." },
             },
             required: ["action"],
         },
@@ -128,13 +449,42 @@ export const tools = [
         inputSchema: {
             type: "object",
             properties: {
-                action: { type: "string", enum: ["evaluate", "stackTrace"], description: "The inspection action to perform" },
-                expression: { type: "string", description: "Expression to evaluate (required for evaluate)" },
-                frameId: { type: "number", description: "Stack frame ID for evaluation context (for evaluate)" },
+                action: { type: "string", enum: ["evaluate", "stackTrace", "threads", "scopes", "variables", "setVariable", "disassemble", "readMemory", "writeMemory", "source", "modules", "loadedSources", "sessions"], description: "The inspection action to perform" },
+                expression: { type: "string", description: "Expression to evaluate (required for evaluate), or the expression to assign to (for setVariable)" },
+                frameId: { type: "number", description: "Stack frame ID (for evaluate/scopes/variables/setVariable). If omitted, uses the top frame (for variables, the frame the variablesReference came from)." },
                 context: { type: "string", enum: ["watch", "repl", "hover", "clipboard"], description: "Evaluation context: 'repl' (default) executes as code, 'watch' evaluates without side effects, 'hover' for quick inspection, 'clipboard' formats for copying" },
-                threadId: { type: "number", description: "Thread ID (for stackTrace)" },
+                threadId: { type: "number", description: "Thread ID (for evaluate/stackTrace/scopes). If omitted, uses the thread that last stopped." },
                 startFrame: { type: "number", description: "First frame to return (for stackTrace)" },
                 levels: { type: "number", description: "Maximum number of frames to return (for stackTrace)" },
+                variablesReference: { type: "number", description: "Reference of the structure to expand (required for variables), or that contains variableName (for setVariable)" },
+                depth: { type: "number", description: "How many levels of nested structures to expand (for scopes/variables, default 1)" },
+                maxChildren: { type: "number", description: "Maximum number of children returned per level (for scopes/variables, default 100)" },
+                start: { type: "number", description: "Index of the first child (for variables paging) or module (for modules paging) to return" },
+                count: { type: "number", description: "Number of children (for variables paging) or modules (for modules paging) to return, instructions (for disassemble, default 32) or bytes (for readMemory, default 256)" },
+                filter: { type: "string", enum: ["indexed", "named"], description: "Only return indexed (array elements) or named children (for variables)" },
+                variableName: { type: "string", description: "Name of the variable to change within variablesReference (for setVariable)" },
+                value: { type: "string", description: "New value, as an expression in the program's language (required for setVariable)" },
+                memoryReference: { type: "string", description: "Memory reference from evaluate/variables (memoryReference) or stackTrace (instructionPointerReference) results (for disassemble/readMemory/writeMemory)" },
+                offset: { type: "number", description: "Offset from memoryReference: in instructions for disassemble, in bytes for readMemory/writeMemory" },
+                data: { type: "string", description: "Bytes to write as a hex string (required for writeMemory)" },
+                contextLines: { type: "number", description: "Lines of source to include either side of the frame's line (for source, default 10)" },
+                sessionId: { type: "string", description: "ID of the debug session to inspect (from the sessions action). If omitted, uses the active session." },
+            },
+            required: ["action"],
+        },
+    },
+    {
+        name: "debug_output",
+        description: outputDescription,
+        inputSchema: {
+            type: "object",
+            properties: {
+                action: { type: "string", enum: ["read", "tail", "clear", "logpoints"], description: "The output action to perform" },
+                cursor: { type: "number", description: "Sequence number to read from, e.g. nextCursor of a previous call (for read)" },
+                limit: { type: "integer", minimum: 1, description: "Maximum number of entries to return (for read, default 100; for tail, default 20; per logpoint for logpoints, default 100)" },
+                category: { type: "string", description: "Only return entries of this category, e.g. stdout, stderr, console (for read/tail)" },
+                pattern: { type: "string", description: "Only return entries whose output matches this regular expression (for read/tail/logpoints)" },
+                sessionId: { type: "string", description: "ID of the debug session whose output to read. If omitted, uses the active session or the one that produced output most recently." },
             },
             required: ["action"],
         },
@@ -149,33 +499,24 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
     private _isRunning: boolean = false;
     private stoppedEmitter = new vscode.EventEmitter<{ session: vscode.DebugSession; body: any }>();
     private outputEmitter = new vscode.EventEmitter<{ session: vscode.DebugSession; body: any }>();
-    private trackerDisposable: vscode.Disposable;
+    private breakpointStatusEmitter = new vscode.EventEmitter<{ session: vscode.DebugSession; path: string }>();
+    private configurationDoneEmitter = new vscode.EventEmitter<vscode.DebugSession>();
+    private sessionStates = new Map<string, SessionState>();
+    private sessions = new Map<string, vscode.DebugSession>();
+    private outputBuffers = new Map<string, OutputBuffer>();
+    // Lines the adapters bound source breakpoints to ("path:line" -> line). Unlike the
+    // per-session status this outlives the session, since its output stays readable,
+    // but not the breakpoint itself.
+    private boundBreakpointLines = new Map<string, number>();
+    // runToLine breakpoints still waiting for their session to stop, by owning session
+    private temporaryBreakpoints = new Map<vscode.SourceBreakpoint, vscode.DebugSession>();
+    private trackerDisposable: vscode.Disposable | undefined;
+    private sessionDisposables: vscode.Disposable[] = [];
 
     constructor(port?: number) {
         super();
         this.port = port || 4711;
 
-        // Register a debug adapter tracker to reliably detect DAP stopped events.
-        // Using onDidChangeActiveStackItem is unreliable after customRequest('continue')
-        // because customRequest bypasses VS Code's internal debug model state updates —
-        // the model may not transition to "running", so when the next stopped event
-        // arrives, activeStackItem doesn't change and the event never fires.
-        this.trackerDisposable = vscode.debug.registerDebugAdapterTrackerFactory('*', {
-            createDebugAdapterTracker: (session: vscode.DebugSession) => {
-                const stoppedEmitter = this.stoppedEmitter;
-                const outputEmitter = this.outputEmitter;
-                return {
-                    onDidSendMessage(message: any) {
-                        if (message.type === 'event' && message.event === 'stopped') {
-                            stoppedEmitter.fire({ session, body: message.body });
-                        } else if (message.type === 'event' && message.event === 'output') {
-                            outputEmitter.fire({ session, body: message.body });
-                        }
-                    }
-                };
-            }
-        });
-
         this.mcpServer = new McpServer({
             name: "Debug Server",
             version: "1.0.0",
@@ -183,7 +524,7 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
             instructions: serverInstructions,
         });
 
-        // Register the 3 new MCP tools
+        // Register the 4 MCP tools
         this.mcpServer.tool("debug_execute", executeDescription, executeInputSchema, async (args: any) => {
             const result = await this.handleExecute(args);
             return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
@@ -198,6 +539,11 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
             const result = await this.handleInspect(args);
             return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
         });
+
+        this.mcpServer.tool("debug_output", outputDescription, outputInputSchema, async (args: any) => {
+            const result = this.handleOutput(args);
+            return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+        });
     }
 
     get isRunning(): boolean {
@@ -212,10 +558,110 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
         return this.port;
     }
 
+    // Registered on every start, since stop() disposes them and the extension's
+    // restart command starts the same instance again
+    private registerDebugListeners(): void {
+        // Register a debug adapter tracker to reliably detect DAP stopped events.
+        // Using onDidChangeActiveStackItem is unreliable after customRequest('continue')
+        // because customRequest bypasses VS Code's internal debug model state updates —
+        // the model may not transition to "running", so when the next stopped event
+        // arrives, activeStackItem doesn't change and the event never fires.
+        this.trackerDisposable = vscode.debug.registerDebugAdapterTrackerFactory('*', {
+            createDebugAdapterTracker: (session: vscode.DebugSession) => {
+                const stoppedEmitter = this.stoppedEmitter;
+                const outputEmitter = this.outputEmitter;
+                return {
+                    onWillReceiveMessage: (message: any) => {
+                        if (message.type === 'request' && resumeCommands.has(message.command)) {
+                            this.markRunning(session, message.arguments?.threadId, !message.arguments?.singleThread);
+                        } else if (message.type === 'request' && message.command === 'setExceptionBreakpoints') {
+                            this.trackExceptionFilters(session, message.arguments);
+                        } else if (message.type === 'request' && message.command === 'setDataBreakpoints') {
+                            this.trackDataBreakpointRequest(session, message.arguments);
+                        } else if (message.type === 'request' && message.command === 'setBreakpoints' && message.arguments?.source?.path) {
+                            const state = this.getSessionState(session);
+                            state.pendingBreakpointRequests ??= new Map();
+                            state.pendingBreakpointRequests.set(message.seq, {
+                                path: message.arguments.source.path,
+                                lines: (message.arguments.breakpoints ?? []).map((bp: any) => bp.line),
+                            });
+                        }
+                    },
+                    onDidSendMessage: (message: any) => {
+                        if (message.type === 'event' && message.event === 'stopped') {
+                            this.markStopped(session, message.body);
+                            stoppedEmitter.fire({ session, body: message.body });
+                        } else if (message.type === 'event' && message.event === 'continued') {
+                            this.markRunning(session, message.body?.threadId, message.body?.allThreadsContinued !== false);
+                        } else if (message.type === 'event' && message.event === 'output') {
+                            this.recordOutput(session, message.body);
+                            outputEmitter.fire({ session, body: message.body });
+                        } else if (message.type === 'event' && message.event === 'capabilities') {
+                            const state = this.getSessionState(session);
+                            state.capabilities = { ...state.capabilities, ...message.body?.capabilities };
+                        } else if (message.type === 'response' && message.command === 'initialize' && message.success) {
+                            this.getSessionState(session).capabilities = { ...message.body };
+                        } else if (message.type === 'response' && message.command === 'setBreakpoints') {
+                            const path = this.trackBreakpointResponse(session, message);
+                            if (path) {
+                                this.breakpointStatusEmitter.fire({ session, path });
+                            }
+                        } else if (message.type === 'event' && message.event === 'breakpoint') {
+                            this.trackBreakpointEvent(session, message.body);
+                        } else if (message.type === 'response' && message.command === 'configurationDone') {
+                            this.configurationDoneEmitter.fire(session);
+                        }
+                    },
+                    onExit: () => {
+                        this.sessionStates.delete(session.id);
+                    },
+                };
+            }
+        });
+
+        // Keep a registry of every running session (including js-debug child
+        // sessions and compound members) so tools can address them by ID
+        // instead of relying on whichever session the user last focused.
+        const activeSession = vscode.debug.activeDebugSession;
+        if (activeSession) {
+            this.sessions.set(activeSession.id, activeSession);
+        }
+        this.sessionDisposables = [
+            vscode.debug.onDidStartDebugSession(session => {
+                this.sessions.set(session.id, session);
+            }),
+            vscode.debug.onDidTerminateDebugSession(session => {
+                this.sessions.delete(session.id);
+                this.sessionStates.delete(session.id);
+                const buffer = this.outputBuffers.get(session.id);
+                if (buffer) {
+                    buffer.terminated = true;
+                }
+                this.removeTemporaryBreakpoints(session);
+            }),
+            this.stoppedEmitter.event(({ session }) => {
+                this.removeTemporaryBreakpoints(session);
+            }),
+            // Forget bound lines of breakpoints that were removed or moved, so a new
+            // breakpoint placed on the same line doesn't inherit them
+            vscode.debug.onDidChangeBreakpoints(() => {
+                const current = new Set(vscode.debug.breakpoints
+                    .filter((bp): bp is vscode.SourceBreakpoint => bp instanceof vscode.SourceBreakpoint)
+                    .map(bp => `${bp.location.uri.fsPath}:${bp.location.range.start.line + 1}`));
+                for (const key of [...this.boundBreakpointLines.keys()]) {
+                    if (!current.has(key)) {
+                        this.boundBreakpointLines.delete(key);
+                    }
+                }
+            }),
+        ];
+    }
+
     async start(): Promise<void> {
         if (this.server) {
             throw new Error('Server is already running');
         }
+        this.registerDebugListeners();
 
         this.server = http.createServer(async (req, res) => {
             res.setHeader('Access-Control-Allow-Origin', '*');
@@ -317,144 +763,788 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
 
     // --- Shared helpers ---
 
-    private async resolveThreadId(session: vscode.DebugSession, explicitThreadId?: number): Promise<number> {
-        if (explicitThreadId !== undefined) {
-            return explicitThreadId;
+    private getSessionState(session: vscode.DebugSession): SessionState {
+        let state = this.sessionStates.get(session.id);
+        if (!state) {
+            state = { stoppedThreads: new Set(), allThreadsStopped: false };
+            this.sessionStates.set(session.id, state);
         }
+        return state;
+    }
 
-        // Try to get thread from activeStackItem
-        const activeStackItem = vscode.debug.activeStackItem;
-        if (activeStackItem instanceof vscode.DebugThread) {
-            return activeStackItem.threadId;
+    private markStopped(session: vscode.DebugSession, body: any): void {
+        const state = this.getSessionState(session);
+        const allThreadsStopped = !!body?.allThreadsStopped;
+        if (body?.threadId !== undefined) {
+            state.stoppedThreads.add(body.threadId);
         }
-        if (activeStackItem instanceof vscode.DebugStackFrame) {
-            return activeStackItem.threadId;
+        if (allThreadsStopped) {
+            state.allThreadsStopped = true;
         }
+        state.lastStop = {
+            threadId: body?.threadId,
+            reason: body?.reason,
+            description: body?.description,
+            allThreadsStopped,
+            timestamp: Date.now(),
+        };
+    }
 
-        // Fall back to DAP threads request
-        const threadsResponse = await session.customRequest('threads');
-        if (threadsResponse?.threads?.length > 0) {
-            return threadsResponse.threads[0].id;
+    private markRunning(session: vscode.DebugSession, threadId: number | undefined, allThreads: boolean): void {
+        const state = this.getSessionState(session);
+        if (allThreads || threadId === undefined) {
+            state.stoppedThreads.clear();
+            state.allThreadsStopped = false;
+        } else {
+            state.stoppedThreads.delete(threadId);
         }
+        // Variable references are only valid while the program is paused
+        state.variableFrames = undefined;
+    }
 
-        throw new Error('No threads available');
+    private rememberVariableFrame(session: vscode.DebugSession, variablesReference: number, frameId: number): void {
+        if (variablesReference > 0) {
+            const state = this.getSessionState(session);
+            state.variableFrames ??= new Map();
+            state.variableFrames.set(variablesReference, frameId);
+        }
     }
 
-    private async gatherStoppedState(session: vscode.DebugSession, threadId: number): Promise<StoppedState> {
-        const stackResponse = await session.customRequest('stackTrace', {
-            threadId,
-            startFrame: 0,
-            levels: 20,
-        });
+    private isThreadPaused(session: vscode.DebugSession, threadId: number): boolean {
+        const state = this.sessionStates.get(session.id);
+        return !!state && (state.allThreadsStopped || state.stoppedThreads.has(threadId));
+    }
 
-        const frames = stackResponse.stackFrames || [];
-        if (frames.length === 0) {
-            throw new Error('No stack frames available');
+    // Whether the session's debug adapter reported a capability. Undefined when
+    // the initialize response wasn't seen (session started before the server).
+    private supports(session: vscode.DebugSession, capability: string): boolean | undefined {
+        const capabilities = this.sessionStates.get(session.id)?.capabilities;
+        return capabilities ? !!capabilities[capability] : undefined;
+    }
+
+    private trackExceptionFilters(session: vscode.DebugSession, args: any): void {
+        const filters = new Map<string, string | undefined>();
+        for (const filterId of args?.filters ?? []) {
+            filters.set(filterId, undefined);
+        }
+        for (const option of args?.filterOptions ?? []) {
+            filters.set(option.filterId, option.condition);
         }
+        this.getSessionState(session).exceptionFilters = filters;
+    }
 
-        const topFrame = frames[0];
-        return {
-            file: topFrame.source?.path || topFrame.source?.name || '<unknown>',
-            line: topFrame.line,
-            column: topFrame.column,
-            stackTrace: frames.map((f: any) => ({
-                id: f.id,
-                name: f.name,
-                file: f.source?.path || f.source?.name || '<unknown>',
-                line: f.line,
-                column: f.column,
-            })),
-        };
+    // The exception filters offered by the session's adapter, with their current state
+    private listExceptionFilters(session: vscode.DebugSession): any[] {
+        const state = this.sessionStates.get(session.id);
+        if (!state?.capabilities) {
+            throw new Error('Exception filters are unknown for this session (it started before the MCP server). Restart the debug session.');
+        }
+        const enabled = state.exceptionFilters;
+        return (state.capabilities.exceptionBreakpointFilters ?? []).map((f: any) => ({
+            filterId: f.filter,
+            label: f.label,
+            description: f.description,
+            enabled: enabled ? enabled.has(f.filter) : !!f.default,
+            condition: enabled?.get(f.filter),
+            supportsCondition: !!f.supportsCondition,
+            conditionDescription: f.conditionDescription,
+        }));
     }
 
-    private async executeAndWaitForStop(
-        session: vscode.DebugSession,
-        executeFn: () => Promise<void>,
-        fallbackThreadId?: number
-    ): Promise<{ stopped: true; state: StoppedState; stopReason?: string; description?: string; exceptionText?: string } | { stopped: false; reason: string }> {
-        return new Promise(async (resolve) => {
-            let resolved = false;
+    // Records the adapter's verdict for each breakpoint of a setBreakpoints request.
+    // Returns the source path the response was for.
+    private trackBreakpointResponse(session: vscode.DebugSession, response: any): string | undefined {
+        const state = this.getSessionState(session);
+        const request = state.pendingBreakpointRequests?.get(response.request_seq);
+        if (!request) {
+            return undefined;
+        }
+        state.pendingBreakpointRequests!.delete(response.request_seq);
 
-            const cleanup = () => {
-                stoppedDisposable.dispose();
-                terminateDisposable.dispose();
+        // setBreakpoints replaces every breakpoint of the source
+        const status = state.breakpointStatus ?? new Map<string, BreakpointStatus>();
+        for (const key of [...status.keys()]) {
+            if (key.startsWith(`${request.path}:`)) {
+                status.delete(key);
+            }
+        }
+        const results = response.success ? response.body?.breakpoints ?? [] : [];
+        request.lines.forEach((line, i) => {
+            const bp = results[i];
+            status.set(`${request.path}:${line}`, bp
+                ? { id: bp.id, verified: !!bp.verified, line: bp.line, message: bp.message }
+                : { verified: false, message: response.message });
+            if (bp?.line !== undefined) {
+                this.boundBreakpointLines.set(`${request.path}:${line}`, bp.line);
+            }
+        });
+        state.breakpointStatus = status;
+        return request.path;
+    }
+
+    // Breakpoint events report breakpoints that were bound (e.g. once a script loaded), moved or rejected later
+    private trackBreakpointEvent(session: vscode.DebugSession, body: any): void {
+        const status = this.sessionStates.get(session.id)?.breakpointStatus;
+        const bp = body?.breakpoint;
+        if (!status || bp?.id === undefined) {
+            return;
+        }
+        for (const [key, entry] of status) {
+            if (entry.id !== bp.id) {
+                continue;
+            }
+            if (body.reason === 'removed') {
+                status.delete(key);
+            } else {
+                status.set(key, {
+                    id: bp.id,
+                    verified: bp.verified ?? entry.verified,
+                    line: bp.line ?? entry.line,
+                    message: bp.message,
+                });
+                if (bp.line !== undefined) {
+                    this.boundBreakpointLines.set(key, bp.line);
+                }
+            }
+        }
+    }
+
+    // The best status of a source breakpoint across sessions: verified in any session wins
+    private getBreakpointStatus(file: string, line: number): BreakpointStatus | undefined {
+        let best: BreakpointStatus | undefined;
+        for (const state of this.sessionStates.values()) {
+            const status = state.breakpointStatus?.get(`${file}:${line}`);
+            if (status && (!best || (status.verified && !best.verified))) {
+                best = status;
+            }
+        }
+        return best;
+    }
+
+    // Resolves once every running session answered a setBreakpoints request for the
+    // file, or one of them verified the line, or after timeoutMs
+    private waitForBreakpointStatus(file: string, line: number, timeoutMs: number): Promise<void> {
+        return new Promise(resolve => {
+            const pending = new Set(this.sessions.keys());
+            const done = () => {
                 clearTimeout(timer);
+                disposable.dispose();
+                resolve();
             };
-
-            // Listen for DAP stopped events directly from the debug adapter.
-            // This is more reliable than onDidChangeActiveStackItem because
-            // it doesn't depend on VS Code's debug model state.
-            const stoppedDisposable = this.stoppedEmitter.event(async ({ session: stoppedSession, body }) => {
-                if (resolved) { return; }
-                if (stoppedSession === session) {
-                    resolved = true;
-                    cleanup();
-                    try {
-                        const threadId = body?.threadId ?? fallbackThreadId;
-                        const state = await this.gatherStoppedState(session, threadId);
-                        // Pass through DAP stop metadata so callers can
-                        // distinguish breakpoints from exceptions, etc.
-                        const stopReason: string | undefined = body?.reason;
-                        const description: string | undefined = body?.description;
-                        const exceptionText: string | undefined = body?.text;
-                        resolve({ stopped: true, state, stopReason, description, exceptionText });
-                    } catch (err) {
-                        resolve({ stopped: false, reason: `Stopped but failed to get state: ${err instanceof Error ? err.message : String(err)}` });
-                    }
+            const timer = setTimeout(done, timeoutMs);
+            const disposable = this.breakpointStatusEmitter.event(({ session, path }) => {
+                if (path !== file) {
+                    return;
+                }
+                pending.delete(session.id);
+                const status = this.sessionStates.get(session.id)?.breakpointStatus?.get(`${file}:${line}`);
+                if (pending.size === 0 || status?.verified) {
+                    done();
                 }
             });
+        });
+    }
 
-            const terminateDisposable = vscode.debug.onDidTerminateDebugSession((terminatedSession) => {
-                if (resolved) { return; }
-                if (terminatedSession === session) {
-                    resolved = true;
-                    cleanup();
-                    resolve({ stopped: false, reason: 'Debug session terminated' });
+    // Resolves a function or method name ("process_order", "MyClass.method") through the
+    // language servers' symbol providers: in one file, or across the workspace
+    private async resolveSymbolLine(symbol: string, file?: string): Promise<{ file: string; line: number; name: string }> {
+        // Some language servers include the parameter list in the name, e.g. "parse(String)"
+        const matches = (name: string) => {
+            const bare = name.replace(/\(.*\)$/, '');
+            return bare === symbol || bare.endsWith(`.${symbol}`);
+        };
+        const candidates: Array<{ uri: vscode.Uri; range: vscode.Range; name: string }> = [];
+
+        if (file) {
+            const uri = vscode.Uri.file(file);
+            const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+                'vscode.executeDocumentSymbolProvider', uri) ?? [];
+            const walk = (list: (vscode.DocumentSymbol | vscode.SymbolInformation)[], parents: string[]) => {
+                for (const s of list) {
+                    const container = 'children' in s ? parents : (s.containerName ? [s.containerName] : []);
+                    const name = [...container, s.name].join('.');
+                    if (functionSymbolKinds.has(s.kind) && matches(name)) {
+                        candidates.push({ uri, range: 'children' in s ? s.range : s.location.range, name });
+                    }
+                    if ('children' in s) {
+                        walk(s.children, [...parents, s.name]);
+                    }
                 }
-            });
+            };
+            walk(symbols, []);
+        } else {
+            const query = symbol.split('.').pop()!;
+            const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+                'vscode.executeWorkspaceSymbolProvider', query) ?? [];
+            for (const s of symbols) {
+                const name = s.containerName ? `${s.containerName}.${s.name}` : s.name;
+                const duplicate = candidates.some(c =>
+                    c.uri.fsPath === s.location.uri.fsPath && c.range.start.line === s.location.range.start.line);
+                if (functionSymbolKinds.has(s.kind) && matches(name) && !duplicate) {
+                    candidates.push({ uri: s.location.uri, range: s.location.range, name });
+                }
+            }
+        }
 
-            const timer = setTimeout(() => {
-                if (resolved) { return; }
-                resolved = true;
-                cleanup();
-                resolve({ stopped: false, reason: 'Timed out waiting for program to stop (10s)' });
-            }, 10000);
+        if (candidates.length === 0) {
+            throw new Error(`Symbol "${symbol}" not found ${file ? `in ${file}` : 'in the workspace'}. ` +
+                'It must be a function or method, and the language server for the file must be running.');
+        }
+        if (candidates.length > 1) {
+            const list = candidates.map(c => `${c.name} (${c.uri.fsPath}:${c.range.start.line + 1})`).join(', ');
+            throw new Error(`Symbol "${symbol}" is ambiguous: ${list}. Qualify it (e.g. Class.method) or pass file.`);
+        }
 
+        const [match] = candidates;
+        // Workspace symbols may cover only the name; document symbols cover the whole body
+        if (!file) {
             try {
-                await executeFn();
+                return await this.resolveSymbolLine(symbol, match.uri.fsPath);
             } catch (err) {
-                if (!resolved) {
-                    resolved = true;
-                    cleanup();
-                    resolve({ stopped: false, reason: `Execution failed: ${err instanceof Error ? err.message : String(err)}` });
+                // Fall back to the range the workspace symbol provider reported when the
+                // file's symbols don't have it; ambiguity in the file still has to be resolved
+                if (!(err instanceof Error && err.message.startsWith(`Symbol "${symbol}" not found`))) {
+                    throw err;
                 }
             }
-        });
+        }
+        const document = await vscode.workspace.openTextDocument(match.uri);
+        return { file: match.uri.fsPath, line: firstBodyLine(document, match.range), name: match.name };
     }
 
-    private async waitForLaunchResult(
-        workspaceFolder: vscode.WorkspaceFolder,
-        config: any
-    ): Promise<any> {
-        return new Promise(async (resolve) => {
-            let resolved = false;
+    // VS Code sends its own setDataBreakpoints (e.g. when breakpoints are deactivated
+    // or a data breakpoint is added in the UI), which replaces ours on the adapter
+    private trackDataBreakpointRequest(session: vscode.DebugSession, args: any): void {
+        const state = this.getSessionState(session);
+        if (state.ownDataBreakpointRequests) {
+            state.ownDataBreakpointRequests--;
+        } else {
+            state.dataBreakpoints = undefined;
+            state.vscodeDataBreakpoints = args?.breakpoints ?? [];
+        }
+    }
 
-            const cleanup = () => {
-                stoppedDisposable.dispose();
-                terminateDisposable.dispose();
-                clearTimeout(timer);
-            };
+    private async sendDataBreakpoints(session: vscode.DebugSession, entries: DataBreakpointEntry[]): Promise<any> {
+        const state = this.getSessionState(session);
+        const pending = state.ownDataBreakpointRequests ?? 0;
+        state.ownDataBreakpointRequests = pending + 1;
+        // setDataBreakpoints replaces the whole list, so resend the ones set in the VS Code UI
+        // after ours (keeping the response indexes of ours)
+        const vscodeEntries = (state.vscodeDataBreakpoints ?? [])
+            .filter(bp => !entries.some(entry => entry.dataId === bp.dataId));
+        let response;
+        try {
+            response = await session.customRequest('setDataBreakpoints', {
+                breakpoints: [
+                    ...entries.map(bp => ({
+                        dataId: bp.dataId,
+                        accessType: bp.accessType,
+                        condition: bp.condition,
+                        hitCondition: bp.hitCondition,
+                    })),
+                    ...vscodeEntries,
+                ],
+            });
+        } catch (err) {
+            // A request that failed before reaching the adapter wasn't counted off by the tracker
+            if ((state.ownDataBreakpointRequests ?? 0) > pending) {
+                state.ownDataBreakpointRequests = pending;
+            }
+            throw err;
+        }
+        state.dataBreakpoints = entries;
+        return response;
+    }
 
-            // Listen for DAP stopped events directly from the debug adapter
-            const stoppedDisposable = this.stoppedEmitter.event(async ({ session, body }) => {
-                if (resolved) { return; }
-                resolved = true;
-                cleanup();
-                try {
-                    const threadId = body?.threadId;
-                    if (threadId === undefined) {
-                        resolve({ message: 'Debug session started but no thread ID in stopped event' });
-                        return;
+    private recordOutput(session: vscode.DebugSession, body: any): void {
+        if (!body?.output || body.category === 'telemetry') {
+            return;
+        }
+
+        let buffer = this.outputBuffers.get(session.id);
+        if (!buffer) {
+            buffer = { sessionId: session.id, sessionName: session.name, entries: [], nextSeq: 0, terminated: false };
+            this.outputBuffers.set(session.id, buffer);
+            // Forget the oldest finished session once too many are kept
+            if (this.outputBuffers.size > MAX_OUTPUT_SESSIONS) {
+                const oldest = [...this.outputBuffers.values()].find(b => b.terminated);
+                if (oldest) {
+                    this.outputBuffers.delete(oldest.sessionId);
+                }
+            }
+        }
+
+        buffer.entries.push({
+            seq: buffer.nextSeq++,
+            category: body.category ?? 'console',
+            output: body.output,
+            timestamp: Date.now(),
+            file: body.source?.path,
+            line: body.line,
+            column: body.column,
+            variablesReference: body.variablesReference || undefined,
+        });
+        if (buffer.entries.length > MAX_OUTPUT_ENTRIES) {
+            buffer.entries.splice(0, buffer.entries.length - MAX_OUTPUT_ENTRIES);
+        }
+    }
+
+    // The output buffer of the given session, the active session, or the
+    // session that produced output most recently
+    private getOutputBuffer(sessionId?: string): OutputBuffer | undefined {
+        if (sessionId) {
+            const buffer = this.outputBuffers.get(sessionId);
+            if (!buffer && !this.sessions.has(sessionId)) {
+                const known = [...this.outputBuffers.values()].map(b => `${b.sessionId} (${b.sessionName})`);
+                throw new Error(`No output captured for session "${sessionId}". Sessions with output: ${known.join(', ') || 'none'}`);
+            }
+            return buffer;
+        }
+
+        const active = vscode.debug.activeDebugSession;
+        if (active && this.outputBuffers.has(active.id)) {
+            return this.outputBuffers.get(active.id);
+        }
+        let latest: OutputBuffer | undefined;
+        for (const buffer of this.outputBuffers.values()) {
+            const last = buffer.entries[buffer.entries.length - 1];
+            const latestLast = latest?.entries[latest.entries.length - 1];
+            if (last && (!latestLast || last.timestamp >= latestLast.timestamp)) {
+                latest = buffer;
+            }
+        }
+        return latest;
+    }
+
+    // Returns the session addressed by sessionId, or the active session if no ID is given
+    private getSession(sessionId?: string): vscode.DebugSession | undefined {
+        if (sessionId !== undefined) {
+            const session = this.sessions.get(sessionId);
+            if (!session) {
+                const ids = [...this.sessions.keys()];
+                throw new Error(`Debug session "${sessionId}" not found. Running sessions: ${ids.length > 0 ? ids.join(', ') : 'none'}`);
+            }
+            return session;
+        }
+        return vscode.debug.activeDebugSession;
+    }
+
+    private isSameOrDescendant(session: vscode.DebugSession, ancestor: vscode.DebugSession): boolean {
+        for (let s: vscode.DebugSession | undefined = session; s; s = s.parentSession) {
+            if (s.id === ancestor.id) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // The session whose adapter owns the thread: the given session or one of its child
+    // sessions (js-debug runs the program's threads in a child session)
+    private async findThreadSession(session: vscode.DebugSession, threadId: number): Promise<vscode.DebugSession> {
+        const candidates = [session, ...[...this.sessions.values()]
+            .filter(s => s.id !== session.id && this.isSameOrDescendant(s, session))];
+        for (const candidate of candidates) {
+            const response = await candidate.customRequest('threads').then(r => r, () => undefined);
+            if (response?.threads?.some((t: any) => t.id === threadId)) {
+                return candidate;
+            }
+        }
+        return session;
+    }
+
+    private listSessions(): any {
+        const active = vscode.debug.activeDebugSession;
+        const nodes = new Map<string, any>();
+        for (const session of this.sessions.values()) {
+            const state = this.sessionStates.get(session.id);
+            nodes.set(session.id, {
+                id: session.id,
+                name: session.name,
+                type: session.type,
+                parentSessionId: session.parentSession?.id,
+                workspaceFolder: session.workspaceFolder?.uri.fsPath,
+                active: session.id === active?.id,
+                paused: !!state && (state.allThreadsStopped || state.stoppedThreads.size > 0),
+                children: [],
+            });
+        }
+
+        // Nest child sessions (e.g. js-debug's per-process sessions) under their parents
+        const roots = [];
+        for (const node of nodes.values()) {
+            const parent = node.parentSessionId ? nodes.get(node.parentSessionId) : undefined;
+            if (parent) {
+                parent.children.push(node);
+            } else {
+                roots.push(node);
+            }
+        }
+
+        return { sessions: roots, count: nodes.size, activeSessionId: active?.id };
+    }
+
+    private async resolveThreadId(session: vscode.DebugSession, explicitThreadId?: number): Promise<number> {
+        if (explicitThreadId !== undefined) {
+            return explicitThreadId;
+        }
+
+        // Prefer the thread that triggered the last stop, if it is still paused
+        const lastStopThreadId = this.sessionStates.get(session.id)?.lastStop?.threadId;
+        if (lastStopThreadId !== undefined && this.isThreadPaused(session, lastStopThreadId)) {
+            return lastStopThreadId;
+        }
+
+        // Try to get thread from activeStackItem (only if it belongs to this session)
+        const activeStackItem = vscode.debug.activeStackItem;
+        if (activeStackItem instanceof vscode.DebugThread && activeStackItem.session.id === session.id) {
+            return activeStackItem.threadId;
+        }
+        if (activeStackItem instanceof vscode.DebugStackFrame && activeStackItem.session.id === session.id) {
+            return activeStackItem.threadId;
+        }
+
+        // Fall back to DAP threads request
+        const threadsResponse = await session.customRequest('threads');
+        if (threadsResponse?.threads?.length > 0) {
+            return threadsResponse.threads[0].id;
+        }
+
+        throw new Error('No threads available');
+    }
+
+    private async resolveFrameId(session: vscode.DebugSession, explicitFrameId?: number, explicitThreadId?: number): Promise<number> {
+        if (explicitFrameId !== undefined) {
+            return explicitFrameId;
+        }
+
+        // Get the top frame from a fresh stack trace request.
+        // We don't use activeStackItem.frameId because the tracker-based
+        // stop detection resolves before VS Code updates activeStackItem,
+        // which would give us a stale frame ID from the previous stop.
+        const threadId = await this.resolveThreadId(session, explicitThreadId);
+        const frames = await session.customRequest('stackTrace', { threadId });
+        if (!frames?.stackFrames?.length) {
+            throw new Error('No stack frame available');
+        }
+        return frames.stackFrames[0].id;
+    }
+
+    // Returns a stack frame by ID from the given (or current) thread, or its top frame when no ID is given
+    private async findFrame(session: vscode.DebugSession, frameId?: number, threadId?: number): Promise<any> {
+        const resolvedThreadId = await this.resolveThreadId(session, threadId);
+        const response = await session.customRequest('stackTrace', { threadId: resolvedThreadId });
+        const frames = response?.stackFrames ?? [];
+        const frame = frameId === undefined ? frames[0] : frames.find((f: any) => f.id === frameId);
+        if (!frame) {
+            throw new Error(frameId === undefined
+                ? 'No stack frame available'
+                : `Frame ${frameId} not found on thread ${resolvedThreadId}. Pass the threadId it belongs to.`);
+        }
+        return frame;
+    }
+
+    // Reads a frame's source lines around its current line. Sources with a
+    // sourceReference (eval'd code, decompiled classes, remote files) only
+    // exist inside the debug adapter, so they are fetched with a DAP source request.
+    private async readSourceWindow(session: vscode.DebugSession, frame: any, contextLines: number): Promise<any> {
+        const source = frame.source;
+        let content: string;
+        if (source?.sourceReference > 0) {
+            const response = await session.customRequest('source', { source, sourceReference: source.sourceReference });
+            content = response?.content ?? '';
+        } else if (source?.path) {
+            content = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(source.path))).toString('utf8');
+        } else {
+            throw new Error(`Frame "${frame.name}" has no source`);
+        }
+
+        const lines = content.split(/\r?\n/);
+        const startLine = Math.max(1, frame.line - contextLines);
+        const endLine = Math.min(lines.length, frame.line + contextLines);
+        const width = String(endLine).length;
+        const window: string[] = [];
+        for (let n = startLine; n <= endLine; n++) {
+            window.push(`${n === frame.line ? '>' : ' '} ${String(n).padStart(width)} | ${lines[n - 1]}`);
+        }
+        return {
+            file: source.path || source.name,
+            sourceReference: source.sourceReference > 0 ? source.sourceReference : undefined,
+            line: frame.line,
+            startLine,
+            endLine,
+            lines: window,
+        };
+    }
+
+    private toVariableInfo(v: any): VariableInfo {
+        const info: VariableInfo = {
+            name: v.name,
+            value: v.value,
+            type: v.type,
+            variablesReference: v.variablesReference ?? 0,
+        };
+        if (v.evaluateName) {
+            info.evaluateName = v.evaluateName;
+        }
+        if (v.memoryReference) {
+            info.memoryReference = v.memoryReference;
+        }
+        if (v.namedVariables !== undefined) {
+            info.namedVariables = v.namedVariables;
+        }
+        if (v.indexedVariables !== undefined) {
+            info.indexedVariables = v.indexedVariables;
+        }
+        return info;
+    }
+
+    // Whether a variable is the same object as one of its ancestors. Adapters such
+    // as js-debug hand out a new variablesReference on every expansion and have no
+    // memoryReference, so for them the evaluateNames are compared in the frame the
+    // variables came from. The hover context keeps getters from running.
+    private async isCircular(
+        session: vscode.DebugSession,
+        variable: VariableInfo,
+        ancestors: Partial<VariableInfo>[],
+        frameId: number | undefined
+    ): Promise<boolean> {
+        const sameReference = ancestors.some(ancestor =>
+            variable.variablesReference === ancestor.variablesReference ||
+            (!!variable.memoryReference && variable.memoryReference === ancestor.memoryReference &&
+                variable.type === ancestor.type));
+        if (sameReference) {
+            return true;
+        }
+
+        const identity = identityExpressions[session.type];
+        const names = ancestors.map(a => a.evaluateName).filter((name): name is string => !!name);
+        if (!identity || !variable.evaluateName || names.length === 0 || frameId === undefined) {
+            return false;
+        }
+        try {
+            const response = await session.customRequest('evaluate', {
+                expression: identity(variable.evaluateName, names),
+                frameId,
+                context: 'hover',
+            });
+            return /^true$/i.test(response?.result ?? '');
+        } catch {
+            // The evaluateName may not be valid in this frame
+            return false;
+        }
+    }
+
+    // Recursively expand a variablesReference. `ancestors` holds the variables
+    // on the path from the root so self-referencing structures are reported as
+    // circular instead of being walked until the depth limit.
+    private async expandVariables(
+        session: vscode.DebugSession,
+        variablesReference: number,
+        depth: number,
+        maxChildren: number,
+        ancestors: Partial<VariableInfo>[],
+        frameId: number | undefined,
+        paging: { start?: number; count?: number; filter?: string } = {}
+    ): Promise<{ variables: VariableInfo[]; truncated: boolean }> {
+        const limit = paging.count ?? maxChildren;
+        const start = paging.start ?? 0;
+        // Adapters without supportsVariablePaging return every child, so the page
+        // is cut out here. Some of them honour start/count anyway; not sending
+        // them keeps the slicing below correct either way.
+        const paged = this.supports(session, 'supportsVariablePaging') === true;
+        const response = await session.customRequest('variables', {
+            variablesReference,
+            filter: paging.filter,
+            // Ask for one extra child so we can tell whether the list was cut off
+            ...(paged ? { start: paging.start, count: limit + 1 } : {}),
+        });
+
+        const all: any[] = response?.variables || [];
+        const page = paged ? all : all.slice(start);
+        const truncated = page.length > limit;
+        const variables = page.slice(0, limit).map(v => this.toVariableInfo(v));
+        if (frameId !== undefined) {
+            variables.forEach(v => this.rememberVariableFrame(session, v.variablesReference, frameId));
+        }
+
+        if (depth <= 1) {
+            return { variables, truncated };
+        }
+
+        const path = ancestors.length > 0 ? ancestors : [{ variablesReference }];
+        for (const variable of variables) {
+            if (variable.variablesReference <= 0) {
+                continue;
+            }
+            if (await this.isCircular(session, variable, path, frameId)) {
+                variable.circular = true;
+                continue;
+            }
+            const nested = await this.expandVariables(
+                session, variable.variablesReference, depth - 1, maxChildren, [...path, variable], frameId);
+            variable.children = nested.variables;
+            const total = (variable.namedVariables ?? 0) + (variable.indexedVariables ?? 0);
+            if (nested.truncated || total > nested.variables.length) {
+                variable.truncated = true;
+                if (total > 0) {
+                    variable.totalChildren = total;
+                }
+            }
+        }
+
+        return { variables, truncated };
+    }
+
+    private async gatherStoppedState(session: vscode.DebugSession, threadId: number): Promise<StoppedState> {
+        const stackResponse = await session.customRequest('stackTrace', {
+            threadId,
+            startFrame: 0,
+            levels: 20,
+        });
+
+        const frames = stackResponse.stackFrames || [];
+        if (frames.length === 0) {
+            throw new Error('No stack frames available');
+        }
+
+        const topFrame = frames[0];
+        return {
+            sessionId: session.id,
+            threadId,
+            file: topFrame.source?.path || topFrame.source?.name || '<unknown>',
+            line: topFrame.line,
+            column: topFrame.column,
+            stackTrace: frames.map((f: any) => ({
+                id: f.id,
+                name: f.name,
+                file: f.source?.path || f.source?.name || '<unknown>',
+                line: f.line,
+                column: f.column,
+            })),
+        };
+    }
+
+    private async executeAndWaitForStop(
+        session: vscode.DebugSession,
+        executeFn: () => Promise<void>,
+        fallbackThreadId: number | undefined,
+        timeoutMs: number,
+        options: { acceptNewSessions?: boolean } = {}
+    ): Promise<{ stopped: true; state: StoppedState; stopReason?: string; description?: string; exceptionText?: string } | { stopped: false; reason: string }> {
+        return new Promise(async (resolve) => {
+            let resolved = false;
+
+            const cleanup = () => {
+                startDisposable.dispose();
+                stoppedDisposable.dispose();
+                terminateDisposable.dispose();
+                clearTimeout(timer);
+            };
+
+            // A restart may replace the session (and its children) with new
+            // ones; with acceptNewSessions those count as the addressed session.
+            const newSessions = new Set<string>();
+            const startDisposable = vscode.debug.onDidStartDebugSession(started => {
+                if (options.acceptNewSessions) {
+                    newSessions.add(started.id);
+                }
+            });
+
+            // Listen for DAP stopped events directly from the debug adapter.
+            // This is more reliable than onDidChangeActiveStackItem because
+            // it doesn't depend on VS Code's debug model state.
+            // Stops reported by child sessions (e.g. js-debug's per-process
+            // sessions) count as stops of the session the caller addressed.
+            const stoppedDisposable = this.stoppedEmitter.event(async ({ session: stoppedSession, body }) => {
+                if (resolved) { return; }
+                if (this.isSameOrDescendant(stoppedSession, session) || newSessions.has(stoppedSession.id)) {
+                    resolved = true;
+                    cleanup();
+                    try {
+                        const threadId = body?.threadId ?? fallbackThreadId;
+                        const state = await this.gatherStoppedState(stoppedSession, threadId);
+                        // Pass through DAP stop metadata so callers can
+                        // distinguish breakpoints from exceptions, etc.
+                        const stopReason: string | undefined = body?.reason;
+                        const description: string | undefined = body?.description;
+                        const exceptionText: string | undefined = body?.text;
+                        resolve({ stopped: true, state, stopReason, description, exceptionText });
+                    } catch (err) {
+                        resolve({ stopped: false, reason: `Stopped but failed to get state: ${err instanceof Error ? err.message : String(err)}` });
+                    }
+                }
+            });
+
+            const terminateDisposable = vscode.debug.onDidTerminateDebugSession((terminatedSession) => {
+                if (resolved) { return; }
+                const ended = options.acceptNewSessions
+                    ? newSessions.has(terminatedSession.id)
+                    : terminatedSession === session;
+                if (ended) {
+                    resolved = true;
+                    cleanup();
+                    resolve({ stopped: false, reason: 'Debug session terminated' });
+                }
+            });
+
+            const timer = setTimeout(() => {
+                if (resolved) { return; }
+                resolved = true;
+                cleanup();
+                resolve({ stopped: false, reason: `Timed out waiting for program to stop (${timeoutMs / 1000}s)` });
+            }, timeoutMs);
+
+            try {
+                await executeFn();
+            } catch (err) {
+                if (!resolved) {
+                    resolved = true;
+                    cleanup();
+                    resolve({ stopped: false, reason: `Execution failed: ${err instanceof Error ? err.message : String(err)}` });
+                }
+            }
+        });
+    }
+
+    // With settleMs, a program that is still running settleMs after its session
+    // finished configuration is reported as running without waiting for the timeout.
+    private async waitForLaunchResult(
+        workspaceFolder: vscode.WorkspaceFolder | undefined,
+        config: any,
+        options: vscode.DebugSessionOptions | undefined,
+        timeoutMs: number,
+        settleMs?: number
+    ): Promise<any> {
+        return new Promise(async (resolve) => {
+            let resolved = false;
+            let settleTimer: NodeJS.Timeout | undefined;
+
+            const cleanup = () => {
+                startDisposable.dispose();
+                stoppedDisposable.dispose();
+                terminateDisposable.dispose();
+                configuredDisposable?.dispose();
+                clearTimeout(timer);
+                clearTimeout(settleTimer);
+            };
+
+            // Only react to sessions started by this launch (including their
+            // child sessions), so other running sessions can't satisfy the wait.
+            const launchedSessions = new Set<string>();
+            const startDisposable = vscode.debug.onDidStartDebugSession(session => {
+                launchedSessions.add(session.id);
+            });
+
+            // Listen for DAP stopped events directly from the debug adapter
+            const stoppedDisposable = this.stoppedEmitter.event(async ({ session, body }) => {
+                if (resolved || !launchedSessions.has(session.id)) { return; }
+                resolved = true;
+                cleanup();
+                try {
+                    const threadId = body?.threadId;
+                    if (threadId === undefined) {
+                        resolve({ message: 'Debug session started but no thread ID in stopped event' });
+                        return;
                     }
                     const state = await this.gatherStoppedState(session, threadId);
                     const stopReason: string | undefined = body?.reason;
@@ -479,24 +1569,34 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
             });
 
             // Listen for session termination
-            const terminateDisposable = vscode.debug.onDidTerminateDebugSession(() => {
-                if (resolved) { return; }
+            const terminateDisposable = vscode.debug.onDidTerminateDebugSession((session) => {
+                if (resolved || !launchedSessions.has(session.id)) { return; }
                 resolved = true;
                 cleanup();
                 resolve({ message: 'Debug session terminated' });
             });
 
-            // Timeout after 10 seconds — program might be running without hitting a breakpoint
-            const timer = setTimeout(() => {
+            const reportRunning = () => {
                 if (resolved) { return; }
                 resolved = true;
                 cleanup();
                 resolve({ message: 'Debug session started (program is running)' });
-            }, 10000);
+            };
+
+            // Child sessions (e.g. js-debug's) finish their configuration later, so
+            // every one of them restarts the settle time
+            const configuredDisposable = settleMs === undefined ? undefined : this.configurationDoneEmitter.event(session => {
+                if (resolved || !launchedSessions.has(session.id)) { return; }
+                clearTimeout(settleTimer);
+                settleTimer = setTimeout(reportRunning, settleMs);
+            });
+
+            // Give up waiting after the timeout — program might be running without hitting a breakpoint
+            const timer = setTimeout(reportRunning, timeoutMs);
 
             // Start the debug session
             try {
-                await vscode.debug.startDebugging(workspaceFolder, config);
+                await vscode.debug.startDebugging(workspaceFolder, config, options);
             } catch (err) {
                 if (!resolved) {
                     resolved = true;
@@ -507,165 +1607,865 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
         });
     }
 
+    // Remove the runToLine breakpoints owned by the session or one of its ancestors
+    private removeTemporaryBreakpoints(session: vscode.DebugSession): void {
+        const owned = [...this.temporaryBreakpoints]
+            .filter(([, owner]) => this.isSameOrDescendant(session, owner))
+            .map(([bp]) => bp);
+        if (owned.length > 0) {
+            owned.forEach(bp => this.temporaryBreakpoints.delete(bp));
+            vscode.debug.removeBreakpoints(owned);
+        }
+    }
+
+    // Wait time for actions that run the program, from the timeout argument
+    // (seconds) or the mcpDebug.stopTimeout setting
+    private resolveStopTimeout(timeout?: number): number {
+        const seconds = timeout ?? vscode.workspace.getConfiguration('mcpDebug').get<number>('stopTimeout', 10);
+        return Math.max(seconds, 0) * 1000;
+    }
+
+    // The current stop of the session or one of its child sessions, if any thread is paused
+    private async getCurrentStop(session: vscode.DebugSession): Promise<any | undefined> {
+        for (const candidate of this.sessions.values()) {
+            if (!this.isSameOrDescendant(candidate, session)) {
+                continue;
+            }
+            const state = this.sessionStates.get(candidate.id);
+            const lastStop = state?.lastStop;
+            if (!lastStop || (state.stoppedThreads.size === 0 && !state.allThreadsStopped)) {
+                continue;
+            }
+            const threadId = lastStop.threadId !== undefined && this.isThreadPaused(candidate, lastStop.threadId)
+                ? lastStop.threadId
+                : state.stoppedThreads.values().next().value;
+            if (threadId === undefined) {
+                continue;
+            }
+            const stopped = await this.gatherStoppedState(candidate, threadId);
+            return { stopped: true, state: stopped, stopReason: lastStop.reason, description: lastStop.description };
+        }
+        return undefined;
+    }
+
+    private toStopResponse(
+        action: string,
+        result: { stopped: true; state: StoppedState; stopReason?: string; description?: string; exceptionText?: string } | { stopped: false; reason: string }
+    ): any {
+        if (!result.stopped) {
+            return { message: result.reason };
+        }
+        const reasonSuffix = result.stopReason ? ` (${result.stopReason})` : '';
+        const response: any = {
+            message: `${action} completed - stopped at ${result.state.file}:${result.state.line}${reasonSuffix}`,
+            reason: result.stopReason,
+            ...result.state,
+        };
+        if (result.description) {
+            response.description = result.description;
+        }
+        if (result.exceptionText) {
+            response.exceptionText = result.exceptionText;
+        }
+        return response;
+    }
+
+    // Returns the workspace folder matching a folder name or path, or the first folder if none is given
+    private resolveWorkspaceFolder(folder?: string): vscode.WorkspaceFolder | undefined {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        if (folder === undefined) {
+            return folders[0];
+        }
+        const match = folders.find(f => f.name === folder || f.uri.fsPath === folder);
+        if (!match) {
+            throw new Error(`Workspace folder "${folder}" not found. Available: ${folders.map(f => f.name).join(', ')}`);
+        }
+        return match;
+    }
+
+    // Collect launch configurations (or compounds) from every workspace folder
+    // plus the workspace-level ones, tagged with the folder they belong to. When
+    // `folder` is given, only that folder's (and workspace-level) entries are returned.
+    private collectLaunchEntries(section: 'configurations' | 'compounds', folder?: vscode.WorkspaceFolder): LaunchEntry[] {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+
+        // In a single-folder window the folder's launch.json is the workspace configuration
+        if (!vscode.workspace.workspaceFile) {
+            const only = folders[0];
+            if (!only) {
+                return [];
+            }
+            const configurations = vscode.workspace.getConfiguration('launch', only.uri).get<any[]>(section) ?? [];
+            return configurations.map(config => ({ config, folder: only }));
+        }
+
+        // In a multi-root workspace, read each folder's launch.json separately.
+        // get() would merge them with the workspace-level value instead.
+        const entries: LaunchEntry[] = [];
+        for (const f of folders) {
+            if (folder && f.uri.toString() !== folder.uri.toString()) {
+                continue;
+            }
+            const inspected = vscode.workspace.getConfiguration('launch', f.uri).inspect<any[]>(section);
+            for (const config of inspected?.workspaceFolderValue ?? []) {
+                entries.push({ config, folder: f });
+            }
+        }
+        const workspaceLevel = vscode.workspace.getConfiguration('launch').inspect<any[]>(section);
+        for (const config of workspaceLevel?.workspaceValue ?? []) {
+            entries.push({ config });
+        }
+        return entries;
+    }
+
+    // Substitute ${...} variables the way F5 does. Variables that prompt in the
+    // VS Code UI (promptString/pickString inputs, process pickers) can't be answered
+    // over MCP and raise an error instead of blocking on a prompt nobody will see.
+    private resolveVariables(value: any, folder: vscode.WorkspaceFolder | undefined): any {
+        if (typeof value === 'string') {
+            return value.replace(/\$\{([^}]+)\}/g, (match, variable: string) => this.resolveVariable(variable, folder) ?? match);
+        }
+        if (Array.isArray(value)) {
+            return value.map(v => this.resolveVariables(v, folder));
+        }
+        if (value && typeof value === 'object') {
+            const result: any = {};
+            for (const key of Object.keys(value)) {
+                result[key] = this.resolveVariables(value[key], folder);
+            }
+            return result;
+        }
+        return value;
+    }
+
+    // Returns undefined for unknown variables so they are left for VS Code to handle
+    private resolveVariable(variable: string, folder: vscode.WorkspaceFolder | undefined): string | undefined {
+        const token = '${' + variable + '}';
+        const separator = variable.indexOf(':');
+        const name = separator >= 0 ? variable.slice(0, separator) : variable;
+        const arg = separator >= 0 ? variable.slice(separator + 1) : undefined;
+
+        const requireFolder = (): vscode.WorkspaceFolder => {
+            if (arg !== undefined) {
+                const named = vscode.workspace.workspaceFolders?.find(f => f.name === arg);
+                if (!named) {
+                    throw new Error(`Cannot resolve ${token}: no workspace folder named "${arg}"`);
+                }
+                return named;
+            }
+            if (!folder) {
+                throw new Error(`Cannot resolve ${token}: no workspace folder is open`);
+            }
+            return folder;
+        };
+        const requireEditor = (): vscode.TextEditor => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                throw new Error(`Cannot resolve ${token}: no file is open in the editor`);
+            }
+            return editor;
+        };
+        const interactiveError = () => new Error(`Cannot resolve ${token}: it needs interactive input in the VS Code UI, which the MCP server can't provide. Pass the value through args/env/cwd overrides or an inline configuration instead.`);
+        const relativeFile = (): string => {
+            const uri = requireEditor().document.uri;
+            const base = vscode.workspace.getWorkspaceFolder(uri) ?? requireFolder();
+            return path.relative(base.uri.fsPath, uri.fsPath);
+        };
+
+        switch (name) {
+            case 'workspaceFolder':
+            case 'workspaceRoot':
+                return requireFolder().uri.fsPath;
+            case 'workspaceFolderBasename':
+                return path.basename(requireFolder().uri.fsPath);
+            case 'file':
+                return requireEditor().document.uri.fsPath;
+            case 'fileBasename':
+                return path.basename(requireEditor().document.uri.fsPath);
+            case 'fileBasenameNoExtension':
+                return path.parse(requireEditor().document.uri.fsPath).name;
+            case 'fileExtname':
+                return path.extname(requireEditor().document.uri.fsPath);
+            case 'fileDirname':
+                return path.dirname(requireEditor().document.uri.fsPath);
+            case 'fileDirnameBasename':
+                return path.basename(path.dirname(requireEditor().document.uri.fsPath));
+            case 'fileWorkspaceFolder': {
+                const fileFolder = vscode.workspace.getWorkspaceFolder(requireEditor().document.uri);
+                if (!fileFolder) {
+                    throw new Error(`Cannot resolve ${token}: the active file is not in a workspace folder`);
+                }
+                return fileFolder.uri.fsPath;
+            }
+            case 'relativeFile':
+                return relativeFile();
+            case 'relativeFileDirname':
+                return path.dirname(relativeFile());
+            case 'lineNumber':
+                return String(requireEditor().selection.active.line + 1);
+            case 'selectedText': {
+                const editor = requireEditor();
+                return editor.document.getText(editor.selection);
+            }
+            case 'cwd':
+                return folder?.uri.fsPath ?? process.cwd();
+            case 'userHome':
+                return os.homedir();
+            case 'pathSeparator':
+            case '/':
+                return path.sep;
+            case 'execPath':
+                return process.execPath;
+            case 'env':
+                return process.env[arg ?? ''] ?? '';
+            case 'config': {
+                const setting = vscode.workspace.getConfiguration(undefined, folder?.uri).get(arg ?? '');
+                if (setting !== null && typeof setting === 'object') {
+                    throw new Error(`Cannot resolve ${token}: the setting is not a string, number or boolean`);
+                }
+                return setting === undefined || setting === null ? '' : String(setting);
+            }
+            case 'input': {
+                // Inputs of type "command" run a command without prompting, like ${command:...}
+                const inputs = vscode.workspace.getConfiguration('launch', folder?.uri).get<any[]>('inputs') ?? [];
+                const input = inputs.find(i => i?.id === arg);
+                if (input?.type === 'promptString' || input?.type === 'pickString') {
+                    throw interactiveError();
+                }
+                return undefined;
+            }
+            case 'command':
+                if (arg !== undefined && interactiveCommands.has(arg)) {
+                    throw interactiveError();
+                }
+                return undefined;
+            default:
+                return undefined;
+        }
+    }
+
+    // Launch a compound configuration by name so VS Code applies the same
+    // ordering, preLaunchTask and stopAll semantics as F5. The member
+    // configurations are resolved up front so interactive variables fail fast.
+    private async launchCompound(compound: LaunchEntry, noDebug: boolean | undefined, timeoutMs: number): Promise<any> {
+        const members: any[] = compound.config.configurations ?? [];
+        if (members.length === 0) {
+            throw new Error(`Compound "${compound.config.name}" has no configurations`);
+        }
+
+        const configurations = this.collectLaunchEntries('configurations');
+        const resolved = [];
+        for (const member of members) {
+            const name = typeof member === 'string' ? member : member?.name;
+            const folderName = typeof member === 'string' ? undefined : member?.folder;
+            const candidates = configurations.filter(e =>
+                e.config.name === name && (folderName === undefined || e.folder?.name === folderName));
+            // Prefer the member defined next to the compound
+            const entry = candidates.find(e => e.folder?.uri.toString() === compound.folder?.uri.toString()) ?? candidates[0];
+            if (!entry) {
+                throw new Error(`Configuration "${name}" referenced by compound "${compound.config.name}" not found`);
+            }
+            resolved.push(this.resolveVariables({ ...entry.config }, entry.folder ?? compound.folder));
+        }
+
+        const result = await this.waitForLaunchResult(compound.folder, compound.config.name, noDebug ? { noDebug: true } : undefined, timeoutMs);
+        return { ...result, compound: compound.config.name, configurations: resolved };
+    }
+
+    // Build a launch configuration from an inline configuration object or from
+    // the program/args/runtime shorthand, for workspaces without a launch.json.
+    private buildInlineConfiguration(args: {
+        configuration?: Record<string, any>;
+        program?: string;
+        args?: string[];
+        runtime?: string;
+    }): any {
+        if (args.configuration) {
+            if (!args.configuration.type) {
+                throw new Error('Inline configuration requires a "type" (e.g. "node", "debugpy")');
+            }
+            return {
+                name: 'MCP Inline Launch',
+                request: 'launch',
+                ...args.configuration,
+            };
+        }
+
+        const program = args.program!;
+        let runtime = args.runtime;
+        if (!runtime) {
+            const ext = path.extname(program).toLowerCase();
+            if (ext === '.py') {
+                runtime = 'python';
+            } else if (['.js', '.mjs', '.cjs'].includes(ext)) {
+                runtime = 'node';
+            } else {
+                throw new Error(`Cannot infer runtime from "${program}". Specify runtime (node or python) or pass a full configuration.`);
+            }
+        }
+
+        const config: any = {
+            name: `MCP Launch ${path.basename(program)}`,
+            request: 'launch',
+            program,
+            cwd: path.dirname(program),
+        };
+        if (args.args) {
+            config.args = args.args;
+        }
+
+        switch (runtime) {
+            case 'node':
+                return { type: 'node', ...config };
+            case 'python':
+                // Route program output through the debug adapter instead of a terminal
+                return { type: 'debugpy', ...config, console: 'internalConsole' };
+            default:
+                throw new Error(`Unsupported runtime "${runtime}". Supported: node, python`);
+        }
+    }
+
+    // Build an attach configuration for the common debug adapters from either
+    // a host/port the debuggee listens on or the PID of a local process.
+    private buildAttachConfiguration(args: {
+        debugType?: string;
+        host?: string;
+        port?: number;
+        processId?: number;
+        program?: string;
+    }): any {
+        if (!args.debugType) {
+            throw new Error('debugType is required for attach action');
+        }
+        if (args.port === undefined && args.processId === undefined && args.debugType !== 'node') {
+            throw new Error('port or processId is required for attach action');
+        }
+
+        const host = args.host || 'localhost';
+        const name = `Attach (${args.debugType})`;
+        const unsupported = (what: string) =>
+            new Error(`Attaching by ${what} is not supported for debugType "${args.debugType}"`);
+
+        switch (args.debugType) {
+            case 'node':
+                if (args.processId !== undefined) {
+                    // js-debug enables the inspector of the process via SIGUSR1
+                    return { type: 'node', request: 'attach', name, processId: String(args.processId) };
+                }
+                return { type: 'node', request: 'attach', name, address: host, port: args.port ?? 9229 };
+
+            case 'python':
+                if (args.processId !== undefined) {
+                    return { type: 'debugpy', request: 'attach', name, processId: args.processId };
+                }
+                return { type: 'debugpy', request: 'attach', name, connect: { host, port: args.port } };
+
+            case 'go':
+                if (args.processId !== undefined) {
+                    return { type: 'go', request: 'attach', name, mode: 'local', processId: args.processId };
+                }
+                return { type: 'go', request: 'attach', name, mode: 'remote', host, port: args.port };
+
+            case 'java':
+                if (args.processId !== undefined) {
+                    throw unsupported('processId (start the JVM with a JDWP agent and attach by port)');
+                }
+                return { type: 'java', request: 'attach', name, hostName: host, port: args.port };
+
+            case 'cppdbg':
+                if (args.processId === undefined) {
+                    throw unsupported('port');
+                }
+                if (!args.program) {
+                    throw new Error('program is required to attach with debugType "cppdbg"');
+                }
+                return { type: 'cppdbg', request: 'attach', name, program: args.program, processId: String(args.processId) };
+
+            case 'lldb':
+                if (args.processId === undefined) {
+                    throw unsupported('port');
+                }
+                return { type: 'lldb', request: 'attach', name, pid: args.processId };
+
+            default:
+                throw new Error(`Unsupported debugType "${args.debugType}". Supported: node, python, go, java, cppdbg, lldb`);
+        }
+    }
+
     // --- Tool handlers ---
 
-    private async handleExecute(args: {
+    private async handleExecute(args: Parameters<DebugServer['executeAction']>[0]): Promise<any> {
+        const result = await this.executeAction(args);
+        const session = result?.sessionId ? this.sessions.get(result.sessionId) : undefined;
+        if (args.snippet && session && result.threadId !== undefined) {
+            try {
+                const frame = await this.findFrame(session, undefined, result.threadId);
+                result.snippet = (await this.readSourceWindow(session, frame, 3)).lines;
+            } catch {
+                // The stop location may have no source (e.g. native code without debug info)
+            }
+        }
+        return result;
+    }
+
+    private async executeAction(args: {
         action: string;
         configurationName?: string;
         noDebug?: boolean;
         threadId?: number;
         granularity?: string;
+        sessionId?: string;
+        debugType?: string;
+        host?: string;
+        port?: number;
+        processId?: number;
+        program?: string;
+        configuration?: Record<string, any>;
+        args?: string[];
+        runtime?: string;
+        env?: Record<string, string>;
+        cwd?: string;
+        stopOnEntry?: boolean;
+        folder?: string;
+        frameId?: number;
+        file?: string;
+        line?: number;
+        ignoreBreakpoints?: boolean;
+        timeout?: number;
+        snippet?: boolean;
     }): Promise<any> {
         switch (args.action) {
             case 'launch': {
-                const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-                if (!workspaceFolder) {
-                    throw new Error('No workspace folder found');
+                const selectedFolder = this.resolveWorkspaceFolder(args.folder);
+                let workspaceFolder = selectedFolder;
+
+                let config: any;
+                if (args.configuration || args.program) {
+                    // Inline configuration, no launch.json required
+                    config = this.buildInlineConfiguration(args);
+                } else {
+                    if (!selectedFolder) {
+                        throw new Error('No workspace folder found');
+                    }
+
+                    const scope = args.folder ? selectedFolder : undefined;
+                    const configurations = this.collectLaunchEntries('configurations', scope);
+                    const compounds = this.collectLaunchEntries('compounds', scope);
+                    const entries = [...configurations, ...compounds];
+                    if (entries.length === 0) {
+                        throw new Error('No debug configurations found in launch.json. Pass an inline configuration or a program path instead.');
+                    }
+
+                    let entry: LaunchEntry;
+                    if (args.configurationName) {
+                        // Plain configurations take precedence over compounds of the same name
+                        let matches = configurations.filter(e => e.config.name === args.configurationName);
+                        if (matches.length === 0) {
+                            matches = compounds.filter(e => e.config.name === args.configurationName);
+                        }
+                        if (matches.length === 0) {
+                            const names = entries.map(e => e.config.name);
+                            throw new Error(`Configuration "${args.configurationName}" not found. Available: ${names.join(', ')}`);
+                        }
+                        if (matches.length > 1) {
+                            const where = matches.map(e => e.folder?.name ?? 'workspace');
+                            throw new Error(`Configuration "${args.configurationName}" exists in multiple folders (${where.join(', ')}). Specify folder.`);
+                        }
+                        entry = matches[0];
+                    } else if (entries.length === 1) {
+                        entry = entries[0];
+                    } else {
+                        const names = entries.map(e => e.config.name);
+                        return {
+                            message: 'Multiple debug configurations available. Specify configurationName.',
+                            configurations: names,
+                        };
+                    }
+
+                    if (compounds.includes(entry)) {
+                        // Compounds are launched by name, so VS Code reads the member
+                        // configurations from launch.json and per-call overrides can't reach them
+                        const overrides = (['args', 'env', 'cwd', 'stopOnEntry'] as const).filter(key => args[key] !== undefined);
+                        if (overrides.length > 0) {
+                            throw new Error(`${overrides.join(', ')} can't be applied to compound "${entry.config.name}". Launch its configurations one by one, or set them in launch.json.`);
+                        }
+                        if (vscode.debug.activeDebugSession) {
+                            return { message: 'Debug session already active' };
+                        }
+                        return await this.launchCompound(entry, args.noDebug, this.resolveStopTimeout(args.timeout));
+                    }
+
+                    config = { ...entry.config };
+                    workspaceFolder = entry.folder ?? selectedFolder;
                 }
 
-                const launchConfig = vscode.workspace.getConfiguration('launch', workspaceFolder.uri);
-                const configurations = launchConfig.get<any[]>('configurations');
+                // Per-call overrides, applied before variable resolution so
+                // they can use ${workspaceFolder} etc. too
+                if (args.args) {
+                    config.args = args.args;
+                }
+                if (args.env) {
+                    config.env = { ...config.env, ...args.env };
+                }
+                if (args.cwd) {
+                    config.cwd = args.cwd;
+                }
+                if (args.stopOnEntry !== undefined) {
+                    config.stopOnEntry = args.stopOnEntry;
+                }
 
-                if (!configurations || configurations.length === 0) {
-                    throw new Error('No debug configurations found in launch.json');
+                config = this.resolveVariables(config, workspaceFolder);
+
+                if (args.noDebug) {
+                    config.noDebug = true;
                 }
 
-                let config: any;
-                if (args.configurationName) {
-                    config = configurations.find(c => c.name === args.configurationName);
-                    if (!config) {
-                        const names = configurations.map(c => c.name);
-                        throw new Error(`Configuration "${args.configurationName}" not found. Available: ${names.join(', ')}`);
-                    }
-                    config = { ...config };
-                } else if (configurations.length === 1) {
-                    config = { ...configurations[0] };
-                } else {
-                    const names = configurations.map(c => c.name);
+                // Check if we're already debugging
+                let session = vscode.debug.activeDebugSession;
+                if (session) {
+                    return { message: 'Debug session already active' };
+                }
+
+                // Wait for either a stop event (breakpoint hit) or session termination
+                const result = await this.waitForLaunchResult(workspaceFolder, config, undefined, this.resolveStopTimeout(args.timeout));
+                return { ...result, configuration: config };
+            }
+
+            case 'attach': {
+                const config = this.buildAttachConfiguration(args);
+
+                // Attaching doesn't conflict with other running sessions, so
+                // unlike launch this doesn't require the debugger to be idle.
+                // Attached services rarely stop, so don't wait out the timeout
+                // once the session is up and running.
+                const result = await this.waitForLaunchResult(
+                    vscode.workspace.workspaceFolders?.[0], config, undefined, this.resolveStopTimeout(args.timeout), ATTACH_SETTLE_MS);
+                return { ...result, configuration: config };
+            }
+
+            case 'stop': {
+                const session = this.getSession(args.sessionId);
+                if (!session) {
+                    return { message: 'No active debug session' };
+                }
+                await vscode.debug.stopDebugging(session);
+                return { message: 'Debug session stopped' };
+            }
+
+            case 'continue':
+            case 'stepOver':
+            case 'stepIn':
+            case 'stepOut':
+            case 'stepBack':
+            case 'reverseContinue': {
+                const session = this.getSession(args.sessionId);
+                if (!session) {
+                    throw new Error('No active debug session');
+                }
+                const reverse = args.action === 'stepBack' || args.action === 'reverseContinue';
+                if (reverse && this.supports(session, 'supportsStepBack') === false) {
                     return {
-                        message: 'Multiple debug configurations available. Specify configurationName.',
-                        configurations: names,
+                        message: `The ${session.type} debug adapter does not support reverse debugging, so ${args.action} is not available. Use a record-and-replay debugger (e.g. rr or CodeLLDB with replay), or relaunch and stop earlier.`,
+                        supported: false,
                     };
                 }
 
-                // Replace ${workspaceFolder} in config values
-                const replacePlaceholders = (obj: any): any => {
-                    if (typeof obj === 'string') {
-                        return obj.replace(/\$\{workspaceFolder\}/g, workspaceFolder.uri.fsPath);
-                    }
-                    if (Array.isArray(obj)) {
-                        return obj.map(replacePlaceholders);
+                const threadId = await this.resolveThreadId(session, args.threadId);
+
+                // Use VS Code's high-level commands by default so the internal
+                // debug model state is properly updated (transitions to "running"
+                // then back to "stopped"). This ensures the UI correctly shows
+                // exceptions, hit breakpoints, etc.
+                // Fall back to DAP customRequest only when the caller needs
+                // features the high-level commands don't support (explicit
+                // threadId, stepping granularity, or a session other than the
+                // focused one — the commands always act on the focused session).
+                const steps = args.action !== 'continue' && args.action !== 'reverseContinue';
+                const useCustomRequest = args.threadId !== undefined ||
+                    (args.granularity && steps) ||
+                    session !== vscode.debug.activeDebugSession;
+
+                let executeFn: () => Promise<void>;
+                if (useCustomRequest) {
+                    const dapCommandMap: Record<string, string> = {
+                        'continue': 'continue',
+                        'stepOver': 'next',
+                        'stepIn': 'stepIn',
+                        'stepOut': 'stepOut',
+                        'stepBack': 'stepBack',
+                        'reverseContinue': 'reverseContinue',
+                    };
+                    const dapCommand = dapCommandMap[args.action];
+                    const dapArgs: any = { threadId };
+                    if (args.granularity && steps) {
+                        dapArgs.granularity = args.granularity;
                     }
-                    if (obj && typeof obj === 'object') {
-                        const result: any = {};
-                        for (const key of Object.keys(obj)) {
-                            result[key] = replacePlaceholders(obj[key]);
-                        }
-                        return result;
+                    executeFn = () => session.customRequest(dapCommand, dapArgs);
+                } else {
+                    const vscodeCommandMap: Record<string, string> = {
+                        'continue': 'workbench.action.debug.continue',
+                        'stepOver': 'workbench.action.debug.stepOver',
+                        'stepIn': 'workbench.action.debug.stepInto',
+                        'stepOut': 'workbench.action.debug.stepOut',
+                        'stepBack': 'workbench.action.debug.stepBack',
+                        'reverseContinue': 'workbench.action.debug.reverseContinue',
+                    };
+                    const vscodeCommand = vscodeCommandMap[args.action];
+                    executeFn = () => vscode.commands.executeCommand(vscodeCommand);
+                }
+
+                const result = await this.executeAndWaitForStop(session, executeFn, threadId, this.resolveStopTimeout(args.timeout));
+                return this.toStopResponse(args.action, result);
+            }
+
+            case 'restartFrame': {
+                const session = this.getSession(args.sessionId);
+                if (!session) {
+                    throw new Error('No active debug session');
+                }
+                if (this.supports(session, 'supportsRestartFrame') === false) {
+                    return {
+                        message: `The ${session.type} debug adapter does not support restarting frames. Use restart to rerun the whole program instead.`,
+                        supported: false,
+                    };
+                }
+
+                const threadId = await this.resolveThreadId(session, args.threadId);
+                const frameId = await this.resolveFrameId(session, args.frameId, threadId);
+                const result = await this.executeAndWaitForStop(
+                    session,
+                    () => session.customRequest('restartFrame', { frameId }) as Promise<void>,
+                    threadId,
+                    this.resolveStopTimeout(args.timeout));
+                return this.toStopResponse(args.action, result);
+            }
+
+            case 'restart': {
+                const session = this.getSession(args.sessionId);
+                if (!session) {
+                    throw new Error('No active debug session');
+                }
+
+                // Like continue, prefer the VS Code command for the focused session so
+                // its debug model follows along; it falls back to stop + relaunch when
+                // the adapter can't restart in place.
+                let executeFn: () => Promise<void>;
+                if (session === vscode.debug.activeDebugSession) {
+                    executeFn = () => vscode.commands.executeCommand('workbench.action.debug.restart') as Promise<void>;
+                } else if (this.supports(session, 'supportsRestartRequest')) {
+                    executeFn = () => session.customRequest('restart', { arguments: session.configuration }) as Promise<void>;
+                } else {
+                    throw new Error(`The ${session.type} debug adapter of session "${session.name}" can't restart in place. Stop it and launch it again.`);
+                }
+
+                const result = await this.executeAndWaitForStop(
+                    session, executeFn, undefined, this.resolveStopTimeout(args.timeout), { acceptNewSessions: true });
+                if (!result.stopped && result.reason.startsWith('Timed out')) {
+                    return { message: 'Debug session restarted (program is running)' };
+                }
+                return this.toStopResponse(args.action, result);
+            }
+
+            case 'jumpTo': {
+                if (!args.line) {
+                    throw new Error('line is required for jumpTo action');
+                }
+                const session = this.getSession(args.sessionId);
+                if (!session) {
+                    throw new Error('No active debug session');
+                }
+                if (this.supports(session, 'supportsGotoTargetsRequest') === false) {
+                    return {
+                        message: `The ${session.type} debug adapter does not support jumping to a line. Use runToLine to get there by running the code instead.`,
+                        supported: false,
+                    };
+                }
+
+                const threadId = await this.resolveThreadId(session, args.threadId);
+                let file = args.file;
+                if (!file) {
+                    const current = await this.gatherStoppedState(session, threadId);
+                    file = current.file;
+                }
+
+                const response = await session.customRequest('gotoTargets', { source: { path: file }, line: args.line });
+                const targets: any[] = response?.targets ?? [];
+                if (targets.length === 0) {
+                    throw new Error(`Cannot jump to ${file}:${args.line}: no jump target there in the current frame`);
+                }
+                const target = targets.find(t => t.line === args.line) ?? targets[0];
+
+                const result = await this.executeAndWaitForStop(
+                    session,
+                    () => session.customRequest('goto', { threadId, targetId: target.id }) as Promise<void>,
+                    threadId,
+                    this.resolveStopTimeout(args.timeout));
+                return this.toStopResponse(args.action, result);
+            }
+
+            case 'runToLine': {
+                if (!args.file) {
+                    throw new Error('file is required for runToLine action');
+                }
+                if (!args.line) {
+                    throw new Error('line is required for runToLine action');
+                }
+                const session = this.getSession(args.sessionId);
+                if (!session) {
+                    throw new Error('No active debug session');
+                }
+                const threadId = await this.resolveThreadId(session, args.threadId);
+                const target = path.resolve(args.file);
+                const timeoutMs = this.resolveStopTimeout(args.timeout);
+
+                // Reuse a breakpoint the user already has on the line instead of adding one
+                const existing = vscode.debug.breakpoints.some(bp =>
+                    bp instanceof vscode.SourceBreakpoint && bp.enabled &&
+                    path.resolve(bp.location.uri.fsPath) === target &&
+                    bp.location.range.start.line === args.line! - 1);
+                // Removed again by the next stop of the session or when it ends. Resolves once
+                // the adapters have the breakpoint, so resuming can't run past the line first.
+                const addTemporaryBreakpoint = async () => {
+                    if (existing) {
+                        return;
                     }
-                    return obj;
+                    const bp = new vscode.SourceBreakpoint(
+                        new vscode.Location(vscode.Uri.file(target), new vscode.Position(args.line! - 1, 0)));
+                    this.temporaryBreakpoints.set(bp, session);
+                    const registered = this.waitForBreakpointStatus(target, args.line!, 2000);
+                    vscode.debug.addBreakpoints([bp]);
+                    await registered;
                 };
-                config = replacePlaceholders(config);
-
-                if (args.noDebug) {
-                    config.noDebug = true;
+                await addTemporaryBreakpoint();
+
+                const resume = (s: vscode.DebugSession, tid: number) => () => s === vscode.debug.activeDebugSession
+                    ? vscode.commands.executeCommand('workbench.action.debug.continue') as Promise<void>
+                    : s.customRequest('continue', { threadId: tid }) as Promise<void>;
+                const reachedTarget = (state: StoppedState) =>
+                    path.resolve(state.file) === target && state.line === args.line;
+
+                const deadline = Date.now() + timeoutMs;
+                let result = await this.executeAndWaitForStop(session, resume(session, threadId), threadId, timeoutMs);
+                while (args.ignoreBreakpoints && result.stopped && !reachedTarget(result.state) &&
+                    breakpointStopReasons.has(result.stopReason ?? '')) {
+                    const remaining = deadline - Date.now();
+                    if (remaining <= 0) {
+                        result = { stopped: false, reason: `Timed out waiting for program to reach ${args.file}:${args.line} (${timeoutMs / 1000}s)` };
+                        break;
+                    }
+                    // Stopping removed the temporary breakpoint, so set it again before moving on
+                    await addTemporaryBreakpoint();
+                    const stoppedSession = this.sessions.get(result.state.sessionId) ?? session;
+                    result = await this.executeAndWaitForStop(
+                        session, resume(stoppedSession, result.state.threadId), result.state.threadId, remaining);
                 }
-
-                // Check if we're already debugging
-                let session = vscode.debug.activeDebugSession;
-                if (session) {
-                    return { message: 'Debug session already active' };
+                // Don't leave the breakpoint behind while the program keeps running
+                if (!result.stopped) {
+                    this.removeTemporaryBreakpoints(session);
                 }
 
-                // Wait for either a stop event (breakpoint hit) or session termination
-                return await this.waitForLaunchResult(workspaceFolder, config);
-            }
-
-            case 'stop': {
-                const session = vscode.debug.activeDebugSession;
-                if (!session) {
-                    return { message: 'No active debug session' };
+                const response = this.toStopResponse(args.action, result);
+                if (result.stopped) {
+                    response.reachedTarget = reachedTarget(result.state);
                 }
-                await vscode.debug.stopDebugging(session);
-                return { message: 'Debug session stopped' };
+                return response;
             }
 
-            case 'continue':
-            case 'stepOver':
-            case 'stepIn':
-            case 'stepOut': {
-                const session = vscode.debug.activeDebugSession;
+            case 'pause': {
+                const session = this.getSession(args.sessionId);
                 if (!session) {
                     throw new Error('No active debug session');
                 }
 
-                const threadId = await this.resolveThreadId(session, args.threadId);
-
-                // Use VS Code's high-level commands by default so the internal
-                // debug model state is properly updated (transitions to "running"
-                // then back to "stopped"). This ensures the UI correctly shows
-                // exceptions, hit breakpoints, etc.
-                // Fall back to DAP customRequest only when the caller needs
-                // features the high-level commands don't support (explicit
-                // threadId or stepping granularity).
-                const useCustomRequest = args.threadId !== undefined || (args.granularity && args.action !== 'continue');
+                const threadSession = args.threadId !== undefined ? await this.findThreadSession(session, args.threadId) : session;
+                if (args.threadId !== undefined && this.isThreadPaused(threadSession, args.threadId)) {
+                    const state = await this.gatherStoppedState(threadSession, args.threadId);
+                    return { message: `Thread ${args.threadId} is already paused at ${state.file}:${state.line}`, alreadyStopped: true, ...state };
+                }
 
-                let executeFn: () => Promise<void>;
-                if (useCustomRequest) {
-                    const dapCommandMap: Record<string, string> = {
-                        'continue': 'continue',
-                        'stepOver': 'next',
-                        'stepIn': 'stepIn',
-                        'stepOut': 'stepOut',
-                    };
-                    const dapCommand = dapCommandMap[args.action];
-                    const dapArgs: any = { threadId };
-                    if (args.granularity && args.action !== 'continue') {
-                        dapArgs.granularity = args.granularity;
-                    }
-                    executeFn = () => session.customRequest(dapCommand, dapArgs);
+                // Without threadId, pause every running thread of the session and its child sessions
+                const targets: Array<{ session: vscode.DebugSession; threadId: number }> = [];
+                if (args.threadId !== undefined) {
+                    targets.push({ session: threadSession, threadId: args.threadId });
                 } else {
-                    const vscodeCommandMap: Record<string, string> = {
-                        'continue': 'workbench.action.debug.continue',
-                        'stepOver': 'workbench.action.debug.stepOver',
-                        'stepIn': 'workbench.action.debug.stepInto',
-                        'stepOut': 'workbench.action.debug.stepOut',
-                    };
-                    const vscodeCommand = vscodeCommandMap[args.action];
-                    executeFn = () => vscode.commands.executeCommand(vscodeCommand);
+                    for (const candidate of this.sessions.values()) {
+                        if (!this.isSameOrDescendant(candidate, session)) {
+                            continue;
+                        }
+                        const response = await candidate.customRequest('threads').then(r => r, () => undefined);
+                        for (const thread of response?.threads ?? []) {
+                            if (!this.isThreadPaused(candidate, thread.id)) {
+                                targets.push({ session: candidate, threadId: thread.id });
+                            }
+                        }
+                    }
+                    if (targets.length === 0) {
+                        const current = await this.getCurrentStop(session);
+                        if (current) {
+                            return { ...this.toStopResponse(args.action, current), alreadyStopped: true };
+                        }
+                        throw new Error('No running threads to pause');
+                    }
                 }
 
-                const result = await this.executeAndWaitForStop(session, executeFn, threadId);
-                if (result.stopped) {
-                    const reasonSuffix = result.stopReason ? ` (${result.stopReason})` : '';
-                    const response: any = {
-                        message: `${args.action} completed - stopped at ${result.state.file}:${result.state.line}${reasonSuffix}`,
-                        reason: result.stopReason,
-                        ...result.state,
-                    };
-                    if (result.description) {
-                        response.description = result.description;
+                const result = await this.executeAndWaitForStop(session, async () => {
+                    // Adapters that stop all threads at once may reject pausing the
+                    // remaining ones; only fail if no pause request got through
+                    const errors: unknown[] = [];
+                    for (const target of targets) {
+                        try {
+                            await target.session.customRequest('pause', { threadId: target.threadId });
+                        } catch (err) {
+                            errors.push(err);
+                        }
                     }
-                    if (result.exceptionText) {
-                        response.exceptionText = result.exceptionText;
+                    if (errors.length === targets.length) {
+                        throw errors[0];
                     }
-                    return response;
+                }, targets[0].threadId, this.resolveStopTimeout(args.timeout));
+                return this.toStopResponse(args.action, result);
+            }
+
+            case 'waitForStop': {
+                const session = this.getSession(args.sessionId);
+                if (!session) {
+                    throw new Error('No active debug session');
+                }
+
+                const current = await this.getCurrentStop(session);
+                if (current) {
+                    return { ...this.toStopResponse(args.action, current), alreadyStopped: true };
                 }
-                return { message: result.reason };
+                const result = await this.executeAndWaitForStop(session, async () => { }, undefined, this.resolveStopTimeout(args.timeout));
+                return this.toStopResponse(args.action, result);
             }
 
             case 'listConfigurations': {
-                const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-                if (!workspaceFolder) {
+                const selectedFolder = this.resolveWorkspaceFolder(args.folder);
+                if (!selectedFolder) {
                     throw new Error('No workspace folder found');
                 }
-                const launchConfig = vscode.workspace.getConfiguration('launch', workspaceFolder.uri);
-                const configurations = launchConfig.get<any[]>('configurations');
-                if (!configurations || configurations.length === 0) {
+                const scope = args.folder ? selectedFolder : undefined;
+                const entries = this.collectLaunchEntries('configurations', scope);
+                const compounds = this.collectLaunchEntries('compounds', scope);
+                if (entries.length === 0 && compounds.length === 0) {
                     return { message: 'No debug configurations found in launch.json', configurations: [] };
                 }
                 return {
-                    configurations: configurations.map(c => ({ name: c.name, type: c.type, request: c.request })),
+                    configurations: [
+                        ...entries.map(({ config: c, folder }) => ({
+                            name: c.name,
+                            type: c.type,
+                            request: c.request,
+                            folder: folder?.name,
+                        })),
+                        ...compounds.map(({ config: c, folder }) => ({
+                            name: c.name,
+                            type: 'compound',
+                            configurations: (c.configurations ?? []).map((m: any) => typeof m === 'string' ? m : m?.name),
+                            folder: folder?.name,
+                        })),
+                    ],
                 };
             }
 
@@ -681,9 +2481,101 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
         condition?: string;
         hitCondition?: string;
         logMessage?: string;
+        functionName?: string;
+        variableName?: string;
+        variablesReference?: number;
+        accessType?: 'read' | 'write' | 'readWrite';
+        filterId?: string;
+        enabled?: boolean;
+        symbol?: string;
+        sessionId?: string;
     }): Promise<any> {
         switch (args.action) {
             case 'set': {
+                if (args.functionName) {
+                    const session = this.getSession(args.sessionId);
+                    if (session && this.supports(session, 'supportsFunctionBreakpoints') === false) {
+                        return {
+                            message: `The ${session.type} debug adapter does not support function breakpoints. Set a breakpoint at a file:line instead.`,
+                            functionName: args.functionName,
+                            supported: false,
+                        };
+                    }
+
+                    const bp = new vscode.FunctionBreakpoint(
+                        args.functionName,
+                        true,
+                        args.condition,
+                        args.hitCondition,
+                        args.logMessage,
+                    );
+                    vscode.debug.addBreakpoints([bp]);
+                    return {
+                        message: `Function breakpoint set on ${args.functionName}`,
+                        functionName: args.functionName,
+                        condition: args.condition,
+                        hitCondition: args.hitCondition,
+                        logMessage: args.logMessage,
+                    };
+                }
+                if (args.variableName) {
+                    if (args.variablesReference === undefined) {
+                        throw new Error('variablesReference is required for data breakpoints');
+                    }
+                    const session = this.getSession(args.sessionId);
+                    if (!session) {
+                        throw new Error('No active debug session');
+                    }
+                    if (this.supports(session, 'supportsDataBreakpoints') === false) {
+                        return {
+                            message: `The ${session.type} debug adapter does not support data breakpoints`,
+                            variableName: args.variableName,
+                            supported: false,
+                        };
+                    }
+
+                    const info = await session.customRequest('dataBreakpointInfo', {
+                        variablesReference: args.variablesReference,
+                        name: args.variableName,
+                    });
+                    if (!info?.dataId) {
+                        return {
+                            message: `Cannot set a data breakpoint on ${args.variableName}: ${info?.description ?? 'not supported for this variable'}`,
+                            variableName: args.variableName,
+                            supported: false,
+                        };
+                    }
+                    const accessType = args.accessType ?? 'write';
+                    if (info.accessTypes && !info.accessTypes.includes(accessType)) {
+                        throw new Error(`Access type "${accessType}" is not supported for ${args.variableName}. Supported: ${info.accessTypes.join(', ')}`);
+                    }
+
+                    // Setting the same data again replaces its access type and conditions
+                    const entries = (this.sessionStates.get(session.id)?.dataBreakpoints ?? [])
+                        .filter(bp => bp.dataId !== info.dataId);
+                    entries.push({
+                        dataId: info.dataId,
+                        accessType,
+                        description: info.description,
+                        variableName: args.variableName,
+                        condition: args.condition,
+                        hitCondition: args.hitCondition,
+                    });
+                    const response = await this.sendDataBreakpoints(session, entries);
+                    return {
+                        message: `Data breakpoint (${accessType}) set on ${info.description}`,
+                        variableName: args.variableName,
+                        dataId: info.dataId,
+                        accessType,
+                        verified: response?.breakpoints?.[entries.length - 1]?.verified,
+                        condition: args.condition,
+                        hitCondition: args.hitCondition,
+                    };
+                }
+                if (args.symbol) {
+                    const resolved = await this.resolveSymbolLine(args.symbol, args.file);
+                    args = { ...args, file: resolved.file, line: resolved.line };
+                }
                 if (!args.file) {
                     throw new Error('file is required for set action');
                 }
@@ -704,11 +2596,30 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
                     args.hitCondition,
                     args.logMessage,
                 );
+                // Running sessions receive the breakpoint right away; wait for their verdict
+                const file = editor.document.uri.fsPath;
+                const statusReceived = this.sessions.size > 0
+                    ? this.waitForBreakpointStatus(file, args.line, 2000)
+                    : undefined;
                 vscode.debug.addBreakpoints([bp]);
+                await statusReceived;
+
+                const status = this.getBreakpointStatus(file, args.line);
+                let message = `Breakpoint set ${args.symbol ? `on ${args.symbol} ` : ''}at ${args.file}:${args.line}`;
+                if (!status) {
+                    message += this.sessions.size > 0 ? ' (not yet verified by the debugger)' : ' (verified when a debug session starts)';
+                } else if (!status.verified) {
+                    message += ` but not verified${status.message ? `: ${status.message}` : ''}`;
+                } else if (status.line !== undefined && status.line !== args.line) {
+                    message += `, moved by the debugger to line ${status.line}`;
+                }
                 return {
-                    message: `Breakpoint set at ${args.file}:${args.line}`,
+                    message,
                     file: args.file,
                     line: args.line,
+                    symbol: args.symbol,
+                    verified: status?.verified,
+                    actualLine: status?.line,
                     condition: args.condition,
                     hitCondition: args.hitCondition,
                     logMessage: args.logMessage,
@@ -716,6 +2627,29 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
             }
 
             case 'remove': {
+                if (args.functionName) {
+                    const fbps = vscode.debug.breakpoints.filter(bp =>
+                        bp instanceof vscode.FunctionBreakpoint && bp.functionName === args.functionName);
+                    if (fbps.length === 0) {
+                        return { message: `No function breakpoint found on ${args.functionName}`, removed: 0 };
+                    }
+                    vscode.debug.removeBreakpoints(fbps);
+                    return { message: `Removed ${fbps.length} function breakpoint(s) on ${args.functionName}`, removed: fbps.length };
+                }
+                if (args.variableName) {
+                    const session = this.getSession(args.sessionId);
+                    if (!session) {
+                        throw new Error('No active debug session');
+                    }
+                    const entries = this.sessionStates.get(session.id)?.dataBreakpoints ?? [];
+                    const remaining = entries.filter(bp => bp.variableName !== args.variableName);
+                    const removed = entries.length - remaining.length;
+                    if (removed === 0) {
+                        return { message: `No data breakpoint found on ${args.variableName}`, removed: 0 };
+                    }
+                    await this.sendDataBreakpoints(session, remaining);
+                    return { message: `Removed ${removed} data breakpoint(s) on ${args.variableName}`, removed };
+                }
                 if (!args.file) {
                     throw new Error('file is required for remove action');
                 }
@@ -742,16 +2676,93 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
             case 'list': {
                 const breakpoints = vscode.debug.breakpoints
                     .filter((bp): bp is vscode.SourceBreakpoint => bp instanceof vscode.SourceBreakpoint)
+                    .map(bp => {
+                        const file = bp.location.uri.fsPath;
+                        const line = bp.location.range.start.line + 1;
+                        const status = this.getBreakpointStatus(file, line);
+                        return {
+                            file,
+                            line,
+                            enabled: bp.enabled,
+                            verified: status?.verified,
+                            actualLine: status?.line,
+                            message: status?.message,
+                            condition: bp.condition,
+                            hitCondition: bp.hitCondition,
+                            logMessage: bp.logMessage,
+                        };
+                    });
+
+                const functionBreakpoints = vscode.debug.breakpoints
+                    .filter((bp): bp is vscode.FunctionBreakpoint => bp instanceof vscode.FunctionBreakpoint)
                     .map(bp => ({
-                        file: bp.location.uri.fsPath,
-                        line: bp.location.range.start.line + 1,
+                        functionName: bp.functionName,
                         enabled: bp.enabled,
                         condition: bp.condition,
                         hitCondition: bp.hitCondition,
                         logMessage: bp.logMessage,
                     }));
 
-                return { breakpoints, count: breakpoints.length };
+                const dataBreakpoints = [...this.sessionStates].flatMap(([sessionId, state]) =>
+                    (state.dataBreakpoints ?? []).map(bp => ({ sessionId, ...bp })));
+
+                return { breakpoints, count: breakpoints.length, functionBreakpoints, dataBreakpoints };
+            }
+
+            case 'exceptionFilters': {
+                const session = this.getSession(args.sessionId);
+                if (!session) {
+                    throw new Error('No active debug session');
+                }
+
+                const filters = this.listExceptionFilters(session);
+                if (filters.length === 0) {
+                    return { message: `The ${session.type} debug adapter does not offer exception filters`, filters };
+                }
+                return { filters, count: filters.length };
+            }
+
+            case 'setExceptionFilter': {
+                if (!args.filterId) {
+                    throw new Error('filterId is required for setExceptionFilter action');
+                }
+                const session = this.getSession(args.sessionId);
+                if (!session) {
+                    throw new Error('No active debug session');
+                }
+
+                const filters = this.listExceptionFilters(session);
+                const filter = filters.find(f => f.filterId === args.filterId);
+                if (!filter) {
+                    throw new Error(`Exception filter "${args.filterId}" not found. Available: ${filters.map(f => f.filterId).join(', ')}`);
+                }
+                if (args.condition && (!filter.supportsCondition || !this.supports(session, 'supportsExceptionFilterOptions'))) {
+                    throw new Error(`Exception filter "${args.filterId}" does not support conditions`);
+                }
+
+                const enabled = new Map<string, string | undefined>(
+                    filters.filter(f => f.enabled).map(f => [f.filterId, f.condition]));
+                if (args.enabled === false) {
+                    enabled.delete(args.filterId);
+                } else {
+                    enabled.set(args.filterId, args.condition);
+                }
+
+                // filters and filterOptions are additive; only conditional filters need options
+                const request: any = {
+                    filters: [...enabled].filter(([, condition]) => !condition).map(([filterId]) => filterId),
+                };
+                if (this.supports(session, 'supportsExceptionFilterOptions')) {
+                    request.filterOptions = [...enabled]
+                        .filter(([, condition]) => condition)
+                        .map(([filterId, condition]) => ({ filterId, condition }));
+                }
+                await session.customRequest('setExceptionBreakpoints', request);
+
+                return {
+                    message: `Exception filter "${filter.label}" ${args.enabled === false ? 'disabled' : 'enabled'}`,
+                    filters: this.listExceptionFilters(session),
+                };
             }
 
             default:
@@ -767,8 +2778,26 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
         threadId?: number;
         startFrame?: number;
         levels?: number;
+        variablesReference?: number;
+        depth?: number;
+        maxChildren?: number;
+        start?: number;
+        count?: number;
+        filter?: string;
+        variableName?: string;
+        value?: string;
+        memoryReference?: string;
+        offset?: number;
+        data?: string;
+        contextLines?: number;
+        sessionId?: string;
     }): Promise<any> {
-        const session = vscode.debug.activeDebugSession;
+        // Listing sessions is the one inspection that doesn't need a paused session
+        if (args.action === 'sessions') {
+            return this.listSessions();
+        }
+
+        const session = this.getSession(args.sessionId);
         if (!session) {
             throw new Error('No active debug session. The program must be paused.');
         }
@@ -779,20 +2808,7 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
                     throw new Error('expression is required for evaluate action');
                 }
 
-                let frameId = args.frameId;
-
-                if (frameId === undefined) {
-                    // Get the top frame from a fresh stack trace request.
-                    // We don't use activeStackItem.frameId because the tracker-based
-                    // stop detection resolves before VS Code updates activeStackItem,
-                    // which would give us a stale frame ID from the previous stop.
-                    const threadId = await this.resolveThreadId(session, args.threadId);
-                    const frames = await session.customRequest('stackTrace', { threadId });
-                    if (!frames?.stackFrames?.length) {
-                        throw new Error('No stack frame available');
-                    }
-                    frameId = frames.stackFrames[0].id;
-                }
+                const frameId = await this.resolveFrameId(session, args.frameId, args.threadId);
 
                 // Capture stdout/stderr produced during evaluation (e.g. from print()).
                 // Some debuggers (debugpy) use exec() for multi-statement expressions,
@@ -825,6 +2841,10 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
                     type: response.type,
                     variablesReference: response.variablesReference,
                 };
+                if (response.memoryReference) {
+                    result.memoryReference = response.memoryReference;
+                }
+                this.rememberVariableFrame(session, response.variablesReference ?? 0, frameId);
 
                 const output = stdoutChunks.join('');
                 const stderr = stderrChunks.join('');
@@ -838,6 +2858,218 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
                 return result;
             }
 
+            case 'setVariable': {
+                if (args.value === undefined) {
+                    throw new Error('value is required for setVariable action');
+                }
+
+                if (args.variablesReference && args.variableName) {
+                    if (this.supports(session, 'supportsSetVariable') === false) {
+                        return {
+                            message: `The ${session.type} debug adapter does not support setting variables`,
+                            supported: false,
+                        };
+                    }
+                    const response = await session.customRequest('setVariable', {
+                        variablesReference: args.variablesReference,
+                        name: args.variableName,
+                        value: args.value,
+                    });
+                    return {
+                        variableName: args.variableName,
+                        value: response.value,
+                        type: response.type,
+                        variablesReference: response.variablesReference,
+                    };
+                }
+
+                if (args.expression) {
+                    if (this.supports(session, 'supportsSetExpression') === false) {
+                        return {
+                            message: `The ${session.type} debug adapter does not support assigning to expressions. Pass variablesReference and variableName instead.`,
+                            supported: false,
+                        };
+                    }
+                    const frameId = await this.resolveFrameId(session, args.frameId, args.threadId);
+                    const response = await session.customRequest('setExpression', {
+                        expression: args.expression,
+                        value: args.value,
+                        frameId,
+                    });
+                    return {
+                        expression: args.expression,
+                        value: response.value,
+                        type: response.type,
+                        variablesReference: response.variablesReference,
+                    };
+                }
+
+                throw new Error('setVariable requires variablesReference and variableName, or expression');
+            }
+
+            case 'disassemble': {
+                const unsupported = {
+                    message: `The ${session.type} debug adapter does not support disassembly. It is available for native debuggers such as cppdbg and lldb.`,
+                    supported: false,
+                };
+                const supported = this.supports(session, 'supportsDisassembleRequest');
+                if (supported === false) {
+                    return unsupported;
+                }
+
+                const count = args.count ?? 32;
+                let memoryReference = args.memoryReference;
+                let instructionPointer: string | undefined;
+                if (!memoryReference) {
+                    const threadId = await this.resolveThreadId(session, args.threadId);
+                    const stack = await session.customRequest('stackTrace', { threadId, startFrame: 0, levels: 1 });
+                    instructionPointer = stack?.stackFrames?.[0]?.instructionPointerReference;
+                    if (!instructionPointer) {
+                        // Adapters without disassembly don't report instruction pointers either
+                        if (supported !== true) {
+                            return unsupported;
+                        }
+                        throw new Error('The top frame has no instruction pointer. Pass memoryReference.');
+                    }
+                    memoryReference = instructionPointer;
+                }
+
+                const response = await session.customRequest('disassemble', {
+                    memoryReference,
+                    // Center the listing on the instruction pointer by default
+                    instructionOffset: args.offset ?? (instructionPointer ? -Math.floor(count / 2) : 0),
+                    instructionCount: count,
+                    resolveSymbols: true,
+                });
+                const current = instructionPointer ? parseAddress(instructionPointer) : undefined;
+                const instructions = (response?.instructions ?? []).map((i: any) => ({
+                    address: i.address,
+                    instructionBytes: i.instructionBytes,
+                    instruction: i.instruction,
+                    symbol: i.symbol,
+                    file: i.location?.path,
+                    line: i.line,
+                    current: current !== undefined && parseAddress(i.address) === current ? true : undefined,
+                }));
+                return { memoryReference, instructions };
+            }
+
+            case 'readMemory': {
+                if (!args.memoryReference) {
+                    throw new Error('memoryReference is required for readMemory action');
+                }
+                if (this.supports(session, 'supportsReadMemoryRequest') === false) {
+                    return {
+                        message: `The ${session.type} debug adapter does not support reading memory`,
+                        supported: false,
+                    };
+                }
+
+                const response = await session.customRequest('readMemory', {
+                    memoryReference: args.memoryReference,
+                    offset: args.offset ?? 0,
+                    count: args.count ?? 256,
+                });
+                const bytes = Buffer.from(response?.data ?? '', 'base64');
+                return {
+                    address: response?.address,
+                    bytes: bytes.length,
+                    unreadableBytes: response?.unreadableBytes,
+                    hexDump: formatHexDump(response?.address, bytes),
+                };
+            }
+
+            case 'writeMemory': {
+                // Only the user's own setting counts: a cloned repo's .vscode/settings.json must not enable it
+                const allowWrite = vscode.workspace.getConfiguration('mcpDebug').inspect<boolean>('allowWriteMemory');
+                if (allowWrite?.globalValue !== true) {
+                    throw new Error('writeMemory is disabled. Enable the mcpDebug.allowWriteMemory setting to allow it.');
+                }
+                if (!args.memoryReference) {
+                    throw new Error('memoryReference is required for writeMemory action');
+                }
+                if (!args.data || !/^([0-9a-fA-F]{2})+$/.test(args.data.replace(/\s+/g, ''))) {
+                    throw new Error('data is required for writeMemory action as a hex string, e.g. "deadbeef"');
+                }
+                if (this.supports(session, 'supportsWriteMemoryRequest') === false) {
+                    return {
+                        message: `The ${session.type} debug adapter does not support writing memory`,
+                        supported: false,
+                    };
+                }
+
+                const data = Buffer.from(args.data.replace(/\s+/g, ''), 'hex');
+                const response = await session.customRequest('writeMemory', {
+                    memoryReference: args.memoryReference,
+                    offset: args.offset ?? 0,
+                    data: data.toString('base64'),
+                });
+                return {
+                    message: `Wrote ${response?.bytesWritten ?? data.length} bytes`,
+                    bytesWritten: response?.bytesWritten ?? data.length,
+                };
+            }
+
+            case 'source': {
+                const frame = await this.findFrame(session, args.frameId, args.threadId);
+                const window = await this.readSourceWindow(session, frame, args.contextLines ?? 10);
+                return { frameId: frame.id, name: frame.name, ...window };
+            }
+
+            case 'modules': {
+                if (this.supports(session, 'supportsModulesRequest') === false) {
+                    return {
+                        message: `The ${session.type} debug adapter does not report loaded modules. Try loadedSources instead.`,
+                        supported: false,
+                    };
+                }
+
+                const response = await session.customRequest('modules', {
+                    startModule: args.start ?? 0,
+                    moduleCount: args.count ?? 0,
+                });
+                const modules = (response?.modules ?? []).map((m: any) => ({
+                    id: m.id,
+                    name: m.name,
+                    path: m.path,
+                    version: m.version,
+                    symbolStatus: m.symbolStatus,
+                    symbolFilePath: m.symbolFilePath,
+                    isOptimized: m.isOptimized,
+                    isUserCode: m.isUserCode,
+                    addressRange: m.addressRange,
+                }));
+                return { modules, count: modules.length, totalModules: response?.totalModules };
+            }
+
+            case 'loadedSources': {
+                if (this.supports(session, 'supportsLoadedSourcesRequest') === false) {
+                    return {
+                        message: `The ${session.type} debug adapter does not report loaded sources`,
+                        supported: false,
+                    };
+                }
+
+                const response = await session.customRequest('loadedSources', {});
+                const sources: any[] = [];
+                // Sources can nest (e.g. the original files of a source-mapped bundle)
+                const collect = (list: any[] | undefined, parent?: string) => {
+                    for (const s of list ?? []) {
+                        sources.push({
+                            name: s.name,
+                            path: s.path,
+                            sourceReference: s.sourceReference > 0 ? s.sourceReference : undefined,
+                            origin: s.origin,
+                            presentationHint: s.presentationHint,
+                            parent,
+                        });
+                        collect(s.sources, s.path || s.name);
+                    }
+                };
+                collect(response?.sources);
+                return { sources, count: sources.length };
+            }
+
             case 'stackTrace': {
                 const threadId = await this.resolveThreadId(session, args.threadId);
                 const stackResponse = await session.customRequest('stackTrace', {
@@ -852,16 +3084,226 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
                     file: f.source?.path || f.source?.name || '<unknown>',
                     line: f.line,
                     column: f.column,
+                    sourceReference: f.source?.sourceReference > 0 ? f.source.sourceReference : undefined,
+                    instructionPointerReference: f.instructionPointerReference,
                 }));
 
                 return { threadId, frames, totalFrames: stackResponse.totalFrames };
             }
 
+            case 'threads': {
+                const threadsResponse = await session.customRequest('threads');
+                const threads = [];
+                for (const t of threadsResponse?.threads || []) {
+                    const paused = this.isThreadPaused(session, t.id);
+                    const thread: any = { id: t.id, name: t.name, paused };
+                    // Only paused threads can report a stack
+                    if (paused) {
+                        try {
+                            const stackResponse = await session.customRequest('stackTrace', { threadId: t.id, startFrame: 0, levels: 1 });
+                            const f = stackResponse?.stackFrames?.[0];
+                            if (f) {
+                                thread.topFrame = {
+                                    id: f.id,
+                                    name: f.name,
+                                    file: f.source?.path || f.source?.name || '<unknown>',
+                                    line: f.line,
+                                    column: f.column,
+                                };
+                            }
+                        } catch {
+                            // Some adapters refuse stack traces for individual threads
+                        }
+                    }
+                    threads.push(thread);
+                }
+
+                const lastStop = this.sessionStates.get(session.id)?.lastStop;
+                const result: any = { threads, count: threads.length };
+                if (lastStop) {
+                    result.lastStop = {
+                        threadId: lastStop.threadId,
+                        reason: lastStop.reason,
+                        description: lastStop.description,
+                        allThreadsStopped: lastStop.allThreadsStopped,
+                    };
+                }
+                return result;
+            }
+
+            case 'scopes': {
+                const frameId = await this.resolveFrameId(session, args.frameId, args.threadId);
+                const depth = args.depth ?? 1;
+                const maxChildren = args.maxChildren ?? 100;
+                const scopesResponse = await session.customRequest('scopes', { frameId });
+
+                const scopes = [];
+                for (const s of scopesResponse?.scopes || []) {
+                    this.rememberVariableFrame(session, s.variablesReference, frameId);
+                    const scope: any = {
+                        name: s.name,
+                        variablesReference: s.variablesReference,
+                        expensive: !!s.expensive,
+                    };
+                    if (s.namedVariables !== undefined) {
+                        scope.namedVariables = s.namedVariables;
+                    }
+                    if (s.indexedVariables !== undefined) {
+                        scope.indexedVariables = s.indexedVariables;
+                    }
+                    // Expensive scopes (e.g. globals) are only expanded on request via the variables action
+                    if (depth > 0 && !s.expensive && s.variablesReference > 0) {
+                        const expanded = await this.expandVariables(session, s.variablesReference, depth, maxChildren, [], frameId);
+                        scope.variables = expanded.variables;
+                        if (expanded.truncated) {
+                            scope.truncated = true;
+                        }
+                    }
+                    scopes.push(scope);
+                }
+
+                return { frameId, scopes };
+            }
+
+            case 'variables': {
+                if (!args.variablesReference) {
+                    throw new Error('variablesReference is required for variables action');
+                }
+
+                // Only needed to compare evaluateNames when looking for cycles
+                const frameId = args.frameId ?? this.sessionStates.get(session.id)?.variableFrames?.get(args.variablesReference);
+                const expanded = await this.expandVariables(
+                    session,
+                    args.variablesReference,
+                    Math.max(args.depth ?? 1, 1),
+                    args.maxChildren ?? 100,
+                    [],
+                    frameId,
+                    { start: args.start, count: args.count, filter: args.filter }
+                );
+
+                const result: any = {
+                    variablesReference: args.variablesReference,
+                    variables: expanded.variables,
+                };
+                if (expanded.truncated) {
+                    result.truncated = true;
+                    result.message = `Only the first ${expanded.variables.length} children were returned. Use start/count (with filter "indexed" for arrays) to page through the rest.`;
+                }
+                return result;
+            }
+
             default:
                 throw new Error(`Unknown inspect action: ${args.action}`);
         }
     }
 
+    private handleOutput(args: {
+        action: string;
+        cursor?: number;
+        limit?: number;
+        category?: string;
+        pattern?: string;
+        sessionId?: string;
+    }): any {
+        let regex: RegExp | undefined;
+        if (args.pattern) {
+            try {
+                regex = new RegExp(args.pattern);
+            } catch (error) {
+                throw new Error(`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+        // The MCP schema enforces this; the stdio bridge passes arguments through unchecked
+        if (args.limit !== undefined && (!Number.isInteger(args.limit) || args.limit < 1)) {
+            throw new Error('limit must be a positive integer');
+        }
+        const matches = (entry: OutputEntry) =>
+            (!args.category || entry.category === args.category) && (!regex || regex.test(entry.output));
+
+        const buffer = this.getOutputBuffer(args.sessionId);
+        if (!buffer) {
+            return { message: 'No output captured yet', entries: [], nextCursor: 0 };
+        }
+        const header = { sessionId: buffer.sessionId, sessionName: buffer.sessionName, terminated: buffer.terminated };
+
+        switch (args.action) {
+            case 'read': {
+                const limit = args.limit ?? 100;
+                const oldest = buffer.entries[0]?.seq ?? buffer.nextSeq;
+                const cursor = args.cursor ?? oldest;
+
+                const entries: OutputEntry[] = [];
+                let nextCursor = buffer.nextSeq;
+                for (const entry of buffer.entries) {
+                    if (entry.seq < cursor || !matches(entry)) {
+                        continue;
+                    }
+                    if (entries.length === limit) {
+                        nextCursor = entry.seq;
+                        break;
+                    }
+                    entries.push(entry);
+                }
+
+                const result: any = { ...header, entries, nextCursor, hasMore: nextCursor < buffer.nextSeq };
+                if (cursor < oldest) {
+                    result.missed = oldest - cursor;
+                    result.message = `${result.missed} older entries were dropped from the buffer`;
+                }
+                return result;
+            }
+
+            case 'tail': {
+                const limit = args.limit ?? 20;
+                const entries = buffer.entries.filter(matches).slice(-limit);
+                return { ...header, entries, nextCursor: buffer.nextSeq };
+            }
+
+            case 'logpoints': {
+                const limit = args.limit ?? 100;
+                // Logpoint messages arrive as output events located at the logpoint. The
+                // program's own output from that line is told apart by the message template.
+                const logpoints = vscode.debug.breakpoints
+                    .filter((bp): bp is vscode.SourceBreakpoint => bp instanceof vscode.SourceBreakpoint && !!bp.logMessage)
+                    .map(bp => {
+                        const file = bp.location.uri.fsPath;
+                        const line = bp.location.range.start.line + 1;
+                        // The adapter may have bound the logpoint to another line, which its output then carries
+                        const actualLine = this.boundBreakpointLines.get(`${file}:${line}`) ?? line;
+                        const template = logMessagePattern(bp.logMessage!);
+                        const hits = buffer.entries
+                            .filter(e => (e.line === line || e.line === actualLine) && !!e.file && path.resolve(e.file) === path.resolve(file) && matches(e))
+                            .filter(e => template.test(e.output.replace(/\r?\n$/, '')))
+                            .map(e => ({ seq: e.seq, output: e.output.replace(/\r?\n$/, ''), timestamp: e.timestamp }));
+                        return {
+                            file,
+                            line,
+                            actualLine: actualLine !== line ? actualLine : undefined,
+                            logMessage: bp.logMessage,
+                            count: hits.length,
+                            hits: hits.slice(-limit),
+                        };
+                    });
+
+                if (logpoints.length === 0) {
+                    return { ...header, message: 'No logpoints set. Use debug_breakpoints set with logMessage.', logpoints };
+                }
+                return { ...header, logpoints };
+            }
+
+            case 'clear': {
+                const cleared = buffer.entries.length;
+                // Keep nextSeq so cursors handed out earlier stay valid
+                buffer.entries = [];
+                return { ...header, message: `Cleared ${cleared} output entries`, cleared };
+            }
+
+            default:
+                throw new Error(`Unknown output action: ${args.action}`);
+        }
+    }
+
     // Dispatch tool calls from /tcp endpoint
     private async handleCommand(request: ToolRequest): Promise<any> {
         switch (request.tool) {
@@ -871,6 +3313,8 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
                 return await this.handleBreakpoints(request.arguments);
             case 'debug_inspect':
                 return await this.handleInspect(request.arguments);
+            case 'debug_output':
+                return this.handleOutput(request.arguments);
             default:
                 throw new Error(`Unknown tool: ${request.tool}`);
         }
@@ -878,9 +3322,22 @@ export class DebugServer extends EventEmitter implements DebugServerEvents {
 
     stop(): Promise<void> {
         return new Promise((resolve) => {
-            this.trackerDisposable.dispose();
+            this.trackerDisposable?.dispose();
+            this.trackerDisposable = undefined;
+            this.sessionDisposables.forEach(d => d.dispose());
+            this.sessionDisposables = [];
+            this.sessions.clear();
+            vscode.debug.removeBreakpoints([...this.temporaryBreakpoints.keys()]);
+            this.temporaryBreakpoints.clear();
             this.stoppedEmitter.dispose();
             this.outputEmitter.dispose();
+            this.breakpointStatusEmitter.dispose();
+            this.configurationDoneEmitter.dispose();
+            // Fresh emitters for the next start()
+            this.stoppedEmitter = new vscode.EventEmitter();
+            this.outputEmitter = new vscode.EventEmitter();
+            this.breakpointStatusEmitter = new vscode.EventEmitter();
+            this.configurationDoneEmitter = new vscode.EventEmitter();
 
             if (!this.server) {
                 this._isRunning = false;
@@ -1,11 +1,12 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { DebugServer } from '../debug-server';
+import { DebugServer, firstBodyLine } from '../debug-server';
 import { TEST_PORT, callTool } from './test-helpers';
 
 const fixtureA = path.resolve(__dirname, '../../src/test/fixtures/sample-a.js');
 const fixtureB = path.resolve(__dirname, '../../src/test/fixtures/sample-b.js');
+const fixtureDoc = path.resolve(__dirname, '../../src/test/fixtures/sample-doc.js');
 
 suite('Breakpoint Management', function () {
     this.timeout(15000);
@@ -42,6 +43,92 @@ suite('Breakpoint Management', function () {
         assert.strictEqual(result.line, 3);
     });
 
+    suite('symbol placement', function () {
+        this.timeout(60000);
+
+        suiteSetup(async () => {
+            // Symbols come from the built-in JavaScript/TypeScript language features,
+            // whose server needs a while to start and load the file
+            const extension = vscode.extensions.getExtension('vscode.typescript-language-features');
+            assert.ok(extension, 'the built-in TypeScript language features must be installed in the test host');
+            await extension.activate();
+
+            const uri = vscode.Uri.file(fixtureA);
+            await vscode.workspace.openTextDocument(uri);
+            for (let i = 0; i < 100; i++) {
+                const symbols = await vscode.commands.executeCommand<any[]>('vscode.executeDocumentSymbolProvider', uri);
+                if (symbols?.length) {
+                    return;
+                }
+                await new Promise(resolve => setTimeout(resolve, 500));
+            }
+            assert.fail(`no document symbols for ${fixtureA}: the JavaScript symbol provider did not load`);
+        });
+
+        test('set by symbol places the breakpoint on the first body line', async () => {
+            const result = await callTool('debug_breakpoints', { action: 'set', file: fixtureA, symbol: 'subtract' });
+            assert.ok(result.message.includes('Breakpoint set on subtract'), `unexpected message: ${result.message}`);
+            assert.strictEqual(result.file, fixtureA);
+            assert.strictEqual(result.line, 8);
+        });
+
+        test('set by unknown symbol throws', async () => {
+            await assert.rejects(
+                callTool('debug_breakpoints', { action: 'set', file: fixtureA, symbol: 'noSuchFunction' }),
+                /Symbol "noSuchFunction" not found in/
+            );
+        });
+    });
+
+    test('symbol body line skips a doc comment ending in a colon', async () => {
+        const document = await vscode.workspace.openTextDocument(fixtureDoc);
+        // Symbol range as reported by language servers that include the doc comment
+        const range = new vscode.Range(1, 0, 10, 1);
+        assert.strictEqual(firstBodyLine(document, range), 9);
+    });
+
+    test('symbol body line does not take a private method for a comment', async () => {
+        const document = await vscode.workspace.openTextDocument({
+            language: 'javascript',
+            content: [
+                'class Orders {',
+                '    #validate(order) {',
+                '        const parts = order.split(":");',
+                '        if (parts.length !== 3) {',
+                '            throw new Error("bad order");',
+                '        }',
+                '    }',
+                '}',
+            ].join('\n'),
+        });
+        assert.strictEqual(firstBodyLine(document, new vscode.Range(1, 4, 6, 5)), 3);
+    });
+
+    test('symbol body line does not take a generator method for a comment', async () => {
+        const document = await vscode.workspace.openTextDocument({
+            language: 'javascript',
+            content: [
+                'class Prices {',
+                '    *totals(items) {',
+                '        const factor = 2;',
+                '        yield items.length',
+                '            * factor;',
+                '    }',
+                '}',
+            ].join('\n'),
+        });
+        assert.strictEqual(firstBodyLine(document, new vscode.Range(1, 4, 5, 5)), 3);
+    });
+
+    test('set without a session leaves verification unknown', async () => {
+        const result = await callTool('debug_breakpoints', { action: 'set', file: fixtureA, line: 3 });
+        assert.ok(result.message.includes('verified when a debug session starts'), `unexpected message: ${result.message}`);
+        assert.strictEqual(result.verified, undefined);
+
+        const list = await callTool('debug_breakpoints', { action: 'list' });
+        assert.strictEqual(list.breakpoints[0].verified, undefined);
+    });
+
     test('set breakpoint appears in vscode.debug.breakpoints', async () => {
         await callTool('debug_breakpoints', {
             action: 'set',
@@ -214,6 +301,52 @@ suite('Breakpoint Management', function () {
         );
     });
 
+    // --- function breakpoints ---
+
+    test('set functionName adds a function breakpoint', async () => {
+        const result = await callTool('debug_breakpoints', {
+            action: 'set',
+            functionName: 'helper',
+            condition: 'a > 1',
+        });
+        assert.ok(result.message.includes('Function breakpoint set'));
+        assert.strictEqual(result.functionName, 'helper');
+
+        const bps = vscode.debug.breakpoints.filter(
+            (bp): bp is vscode.FunctionBreakpoint => bp instanceof vscode.FunctionBreakpoint
+        );
+        assert.strictEqual(bps.length, 1);
+        assert.strictEqual(bps[0].functionName, 'helper');
+        assert.strictEqual(bps[0].condition, 'a > 1');
+    });
+
+    test('list reports function breakpoints separately', async () => {
+        await callTool('debug_breakpoints', { action: 'set', file: fixtureA, line: 3 });
+        await callTool('debug_breakpoints', { action: 'set', functionName: 'helper' });
+
+        const result = await callTool('debug_breakpoints', { action: 'list' });
+        assert.strictEqual(result.count, 1);
+        assert.strictEqual(result.functionBreakpoints.length, 1);
+        assert.strictEqual(result.functionBreakpoints[0].functionName, 'helper');
+        assert.strictEqual(result.functionBreakpoints[0].enabled, true);
+    });
+
+    test('remove functionName deletes only that function breakpoint', async () => {
+        await callTool('debug_breakpoints', { action: 'set', functionName: 'helper' });
+        await callTool('debug_breakpoints', { action: 'set', functionName: 'main' });
+
+        const removeResult = await callTool('debug_breakpoints', { action: 'remove', functionName: 'helper' });
+        assert.strictEqual(removeResult.removed, 1);
+
+        const listResult = await callTool('debug_breakpoints', { action: 'list' });
+        assert.deepStrictEqual(listResult.functionBreakpoints.map((bp: any) => bp.functionName), ['main']);
+    });
+
+    test('remove unknown functionName returns 0', async () => {
+        const result = await callTool('debug_breakpoints', { action: 'remove', functionName: 'nope' });
+        assert.strictEqual(result.removed, 0);
+    });
+
     // --- error handling for execute/inspect without session ---
 
     suite('no active session errors', function () {
@@ -1,8 +1,9 @@
 import * as assert from 'assert';
+import * as childProcess from 'child_process';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { DebugServer } from '../debug-server';
-import { TEST_PORT, callTool } from './test-helpers';
+import { TEST_PORT, callTool, trackAdapterCapabilities } from './test-helpers';
 
 async function ensureNoDebugSession(): Promise<void> {
     if (vscode.debug.activeDebugSession) {
@@ -20,8 +21,10 @@ suite('Edge Cases and Optional Parameters', function () {
 
     let server: DebugServer;
     let appPath: string;
+    let adapter: ReturnType<typeof trackAdapterCapabilities>;
 
     suiteSetup(async () => {
+        adapter = trackAdapterCapabilities();
         server = new DebugServer(TEST_PORT);
         await server.start();
 
@@ -34,6 +37,7 @@ suite('Edge Cases and Optional Parameters', function () {
         await ensureNoDebugSession();
         vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
         await server.stop();
+        adapter.dispose();
     });
 
     // --- Launch edge cases ---
@@ -131,6 +135,330 @@ suite('Edge Cases and Optional Parameters', function () {
         });
     });
 
+    suite('launch overrides', function () {
+        teardown(async () => {
+            await ensureNoDebugSession();
+            vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+        });
+
+        test('overrides are applied and returned in the resolved configuration', async () => {
+            const wsFolder = vscode.workspace.workspaceFolders![0];
+            const result = await callTool('debug_execute', {
+                action: 'launch',
+                configurationName: 'Launch Program',
+                args: ['--verbose'],
+                env: { MCP_TEST_VAR: 'override' },
+                cwd: wsFolder.uri.fsPath,
+                stopOnEntry: true,
+            });
+
+            assert.ok(result.message.includes('stopped'),
+                `expected stopped message, got: ${result.message}`);
+            assert.ok(result.configuration, 'should return the resolved configuration');
+            assert.strictEqual(result.configuration.program, path.join(wsFolder.uri.fsPath, 'app.js'));
+            assert.deepStrictEqual(result.configuration.args, ['--verbose']);
+            assert.strictEqual(result.configuration.env.MCP_TEST_VAR, 'override');
+            assert.strictEqual(result.configuration.cwd, wsFolder.uri.fsPath);
+            assert.strictEqual(result.configuration.stopOnEntry, true);
+
+            const env = await callTool('debug_inspect', {
+                action: 'evaluate',
+                expression: 'process.env.MCP_TEST_VAR',
+            });
+            assert.ok(env.result.includes('override'), `expected env override, got: ${env.result}`);
+        });
+    });
+
+    suite('variable resolution', function () {
+        teardown(async () => {
+            await ensureNoDebugSession();
+            vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+        });
+
+        test('resolves workspace, env and path variables like F5', async () => {
+            const wsFolder = vscode.workspace.workspaceFolders![0];
+            const result = await callTool('debug_execute', {
+                action: 'launch',
+                configurationName: 'Launch Program',
+                env: {
+                    MCP_BASENAME: '${workspaceFolderBasename}',
+                    MCP_PATH: '${env:PATH}',
+                    MCP_SEP: '${pathSeparator}',
+                },
+                stopOnEntry: true,
+            });
+
+            assert.ok(result.message.includes('stopped'),
+                `expected stopped message, got: ${result.message}`);
+            assert.strictEqual(result.configuration.program, path.join(wsFolder.uri.fsPath, 'app.js'));
+            assert.strictEqual(result.configuration.env.MCP_BASENAME, 'test-workspace');
+            assert.strictEqual(result.configuration.env.MCP_PATH, process.env.PATH ?? '');
+            assert.strictEqual(result.configuration.env.MCP_SEP, path.sep);
+        });
+
+        test('leaves non-interactive commands for VS Code to run', async () => {
+            const command = vscode.commands.registerCommand('mcpDebugTest.value', () => 'from-command');
+            try {
+                const result = await callTool('debug_execute', {
+                    action: 'launch',
+                    configurationName: 'Launch Program',
+                    env: { MCP_FROM_COMMAND: '${command:mcpDebugTest.value}' },
+                    stopOnEntry: true,
+                });
+
+                assert.ok(result.message.includes('stopped'),
+                    `expected stopped message, got: ${result.message}`);
+                assert.strictEqual(result.configuration.env.MCP_FROM_COMMAND, '${command:mcpDebugTest.value}');
+            } finally {
+                command.dispose();
+            }
+        });
+    });
+
+    suite('inline launch without launch.json', function () {
+        teardown(async () => {
+            await ensureNoDebugSession();
+            vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+        });
+
+        test('program shorthand infers node runtime', async () => {
+            await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 7 });
+
+            const result = await callTool('debug_execute', { action: 'launch', program: appPath });
+
+            assert.ok(result.message.includes('stopped'),
+                `expected stopped message, got: ${result.message}`);
+            assert.ok(result.file.endsWith('app.js'));
+            assert.strictEqual(result.line, 7);
+        });
+
+        test('inline configuration object', async () => {
+            await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 8 });
+
+            const result = await callTool('debug_execute', {
+                action: 'launch',
+                configuration: { type: 'node', name: 'Inline', program: appPath },
+            });
+
+            assert.ok(result.message.includes('stopped'),
+                `expected stopped message, got: ${result.message}`);
+            assert.strictEqual(result.line, 8);
+        });
+    });
+
+    suite('run to line', function () {
+        teardown(async () => {
+            await ensureNoDebugSession();
+            vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+        });
+
+        test('runToLine stops at the line and removes its temporary breakpoint', async () => {
+            await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 7 });
+            const launch = await callTool('debug_execute', { action: 'launch', configurationName: 'Launch Program' });
+            assert.strictEqual(launch.line, 7);
+
+            const result = await callTool('debug_execute', { action: 'runToLine', file: appPath, line: 10 });
+
+            assert.strictEqual(result.line, 10);
+            assert.strictEqual(result.reachedTarget, true);
+            const list = await callTool('debug_breakpoints', { action: 'list' });
+            assert.deepStrictEqual(list.breakpoints.map((bp: any) => bp.line), [7]);
+        });
+
+        test('runToLine with ignoreBreakpoints continues past other breakpoints', async () => {
+            await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 7 });
+            await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 9 });
+            const launch = await callTool('debug_execute', { action: 'launch', configurationName: 'Launch Program' });
+            assert.strictEqual(launch.line, 7);
+
+            const result = await callTool('debug_execute', {
+                action: 'runToLine',
+                file: appPath,
+                line: 11,
+                ignoreBreakpoints: true,
+            });
+
+            assert.strictEqual(result.line, 11);
+            assert.strictEqual(result.reachedTarget, true);
+            const list = await callTool('debug_breakpoints', { action: 'list' });
+            assert.deepStrictEqual(list.breakpoints.map((bp: any) => bp.line).sort(), [7, 9]);
+        });
+
+        test('runToLine removes its temporary breakpoint when the wait times out', async () => {
+            const delayPath = path.join(path.dirname(appPath), 'delay-app.js');
+            await callTool('debug_breakpoints', { action: 'set', file: delayPath, line: 2 });
+            const launch = await callTool('debug_execute', { action: 'launch', program: delayPath });
+            assert.strictEqual(launch.line, 2);
+
+            // Line 4 runs in a timer 1.5s later
+            const result = await callTool('debug_execute', { action: 'runToLine', file: delayPath, line: 4, timeout: 0 });
+
+            assert.ok(result.message.includes('Timed out'), `expected timeout message, got: ${result.message}`);
+            const list = await callTool('debug_breakpoints', { action: 'list' });
+            assert.deepStrictEqual(list.breakpoints.map((bp: any) => bp.line), [2]);
+        });
+
+        test('runToLine requires file and line', async () => {
+            await assert.rejects(
+                callTool('debug_execute', { action: 'runToLine', line: 10 }),
+                /file is required for runToLine action/
+            );
+        });
+    });
+
+    suite('restart frame and session', function () {
+        suiteTeardown(async () => {
+            await ensureNoDebugSession();
+            vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+        });
+
+        // These tests MUST run in order — each depends on the debug state from the prior test.
+
+        test('restartFrame reruns the current function from its start', async () => {
+            // Break at line 3 (return sum) inside helper
+            await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 3 });
+            const launch = await callTool('debug_execute', { action: 'launch', configurationName: 'Launch Program' });
+            assert.strictEqual(launch.line, 3);
+
+            const result = await callTool('debug_execute', { action: 'restartFrame' });
+
+            assert.ok(result.message.includes('stopped'), `expected stopped message, got: ${result.message}`);
+            assert.ok(result.line < 3, `should stop at the start of helper, got line ${result.line}`);
+        });
+
+        test('restart reruns the program to the first breakpoint', async () => {
+            const result = await callTool('debug_execute', { action: 'restart' });
+
+            assert.ok(result.message.includes('stopped'), `expected stopped message, got: ${result.message}`);
+            assert.ok(result.file.endsWith('app.js'));
+            assert.strictEqual(result.line, 3);
+        });
+    });
+
+    suite('pause running program', function () {
+        teardown(async () => {
+            await ensureNoDebugSession();
+        });
+
+        test('pause interrupts a busy loop and returns where it was spinning', async () => {
+            const loopPath = path.join(path.dirname(appPath), 'loop-app.js');
+
+            const launch = await callTool('debug_execute', { action: 'launch', program: loopPath, timeout: 1 });
+            assert.ok(launch.message.includes('running'), `expected running message, got: ${launch.message}`);
+
+            const result = await callTool('debug_execute', { action: 'pause' });
+
+            assert.ok(result.message.includes('stopped'), `expected stopped message, got: ${result.message}`);
+            assert.strictEqual(result.reason, 'pause');
+            assert.ok(result.file.endsWith('loop-app.js'), `expected loop-app.js, got: ${result.file}`);
+        });
+
+        test('pause sends a child session thread to the child session', async () => {
+            const loopPath = path.join(path.dirname(appPath), 'loop-app.js');
+            await callTool('debug_execute', { action: 'launch', program: loopPath, timeout: 1 });
+
+            // js-debug runs the program in a child session under the launched one
+            const sessions = await callTool('debug_inspect', { action: 'sessions' });
+            const root = sessions.sessions.find((s: any) => s.children.length > 0);
+            assert.ok(root, `expected a session with a child session, got: ${JSON.stringify(sessions.sessions)}`);
+            const threads = await callTool('debug_inspect', { action: 'threads', sessionId: root.children[0].id });
+            const threadId = threads.threads[0].id;
+
+            const result = await callTool('debug_execute', { action: 'pause', sessionId: root.id, threadId });
+
+            assert.ok(result.message.includes('stopped'), `expected stopped message, got: ${result.message}`);
+            assert.strictEqual(result.sessionId, root.children[0].id);
+            assert.ok(result.file.endsWith('loop-app.js'), `expected loop-app.js, got: ${result.file}`);
+        });
+    });
+
+    suite('wait for a later stop', function () {
+        teardown(async () => {
+            await ensureNoDebugSession();
+            vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+        });
+
+        test('waitForStop blocks until the program reaches the next breakpoint', async () => {
+            const delayPath = path.join(path.dirname(appPath), 'delay-app.js');
+            await callTool('debug_breakpoints', { action: 'set', file: delayPath, line: 2 });
+            await callTool('debug_breakpoints', { action: 'set', file: delayPath, line: 4 });
+
+            const launch = await callTool('debug_execute', { action: 'launch', program: delayPath });
+            assert.strictEqual(launch.line, 2);
+
+            // The timer fires 1.5s later, so continue returns while the program runs
+            const resumed = await callTool('debug_execute', { action: 'continue', timeout: 0 });
+            assert.ok(resumed.message.includes('Timed out'), `expected timeout message, got: ${resumed.message}`);
+
+            const started = Date.now();
+            const result = await callTool('debug_execute', { action: 'waitForStop', timeout: 10 });
+
+            assert.ok(result.message.includes('stopped'), `expected stopped message, got: ${result.message}`);
+            assert.strictEqual(result.alreadyStopped, undefined);
+            assert.ok(result.file.endsWith('delay-app.js'), `expected delay-app.js, got: ${result.file}`);
+            assert.strictEqual(result.line, 4);
+            assert.ok(Date.now() - started >= 500, 'waitForStop should have waited for the timer');
+        });
+    });
+
+    suite('attach to a running process', function () {
+        let child: childProcess.ChildProcess | undefined;
+
+        teardown(async () => {
+            await ensureNoDebugSession();
+            child?.kill();
+            child = undefined;
+        });
+
+        test('attach reports a running service without waiting out the timeout', async () => {
+            const loopPath = path.join(path.dirname(appPath), 'loop-app.js');
+            child = childProcess.spawn('node', ['--inspect=127.0.0.1:9339', loopPath]);
+            await new Promise<void>((resolve, reject) => {
+                child!.on('error', reject);
+                child!.stderr!.on('data', (chunk: Buffer) => {
+                    if (chunk.toString().includes('Debugger listening')) {
+                        resolve();
+                    }
+                });
+            });
+
+            const started = Date.now();
+            const result = await callTool('debug_execute', { action: 'attach', debugType: 'node', port: 9339, timeout: 20 });
+
+            assert.ok(result.message.includes('running'), `expected running message, got: ${result.message}`);
+            assert.ok(Date.now() - started < 15000, 'attach should return once the session is ready');
+            assert.strictEqual(result.configuration.port, 9339);
+
+            const paused = await callTool('debug_execute', { action: 'pause' });
+            assert.ok(paused.file.endsWith('loop-app.js'), `expected loop-app.js, got: ${paused.file}`);
+        });
+    });
+
+    suite('server restart', function () {
+        teardown(async () => {
+            await ensureNoDebugSession();
+            vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+        });
+
+        test('a restarted server still tracks sessions and stops', async () => {
+            // The extension's restart command stops and starts the same instance
+            await server.stop();
+            await server.start();
+
+            await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 7 });
+            const launch = await callTool('debug_execute', { action: 'launch', configurationName: 'Launch Program' });
+            assert.strictEqual(launch.line, 7);
+
+            const sessions = await callTool('debug_inspect', { action: 'sessions' });
+            const flatten = (nodes: any[]): any[] => nodes.flatMap(n => [n, ...flatten(n.children)]);
+            assert.ok(flatten(sessions.sessions).some(s => s.id === launch.sessionId),
+                'the launched session should be in the registry');
+
+            const result = await callTool('debug_execute', { action: 'stepOver', sessionId: launch.sessionId });
+            assert.strictEqual(result.line, 8);
+        });
+    });
+
     // --- Optional parameters (sequential, needs active debug session) ---
     // Break at line 9: const result = helper(x, y)
     // At this point x=10, y=20.
@@ -212,6 +540,64 @@ suite('Edge Cases and Optional Parameters', function () {
             assert.strictEqual(result.threadId, threadId);
         });
 
+        test('threads lists the paused thread and the last stop', async () => {
+            const result = await callTool('debug_inspect', { action: 'threads' });
+
+            assert.ok(result.threads.length >= 1, 'should have at least 1 thread');
+            assert.strictEqual(result.count, result.threads.length);
+            assert.ok(result.lastStop, 'should report the last stop');
+            assert.strictEqual(result.lastStop.reason, 'breakpoint');
+
+            const stoppedThread = result.threads.find((t: any) => t.id === result.lastStop.threadId);
+            assert.ok(stoppedThread, 'last stop thread should be listed');
+            assert.strictEqual(stoppedThread.paused, true);
+            assert.ok(stoppedThread.topFrame.file.endsWith('app.js'));
+            assert.strictEqual(stoppedThread.topFrame.line, 9);
+        });
+
+        test('sessions lists the running session tree', async () => {
+            const result = await callTool('debug_inspect', { action: 'sessions' });
+
+            assert.ok(result.count >= 1, 'should list at least 1 session');
+            assert.ok(result.activeSessionId, 'should report the active session');
+
+            // js-debug runs the program in a child session; flatten the tree to find it
+            const flatten = (nodes: any[]): any[] => nodes.flatMap(n => [n, ...flatten(n.children)]);
+            const all = flatten(result.sessions);
+            assert.strictEqual(all.length, result.count);
+            const active = all.find(s => s.id === result.activeSessionId);
+            assert.ok(active, 'active session should be in the tree');
+            assert.strictEqual(active.active, true);
+            assert.strictEqual(active.paused, true);
+        });
+
+        test('evaluate with explicit sessionId', async () => {
+            const sessions = await callTool('debug_inspect', { action: 'sessions' });
+
+            const result = await callTool('debug_inspect', {
+                action: 'evaluate',
+                expression: 'x',
+                sessionId: sessions.activeSessionId,
+            });
+
+            assert.strictEqual(result.result, '10');
+        });
+
+        test('unknown sessionId throws', async () => {
+            await assert.rejects(
+                callTool('debug_inspect', { action: 'stackTrace', sessionId: 'no-such-session' }),
+                /Debug session "no-such-session" not found/
+            );
+        });
+
+        test('waitForStop returns the current stop when already paused', async () => {
+            const result = await callTool('debug_execute', { action: 'waitForStop', timeout: 1 });
+
+            assert.strictEqual(result.alreadyStopped, true);
+            assert.ok(result.file.endsWith('app.js'));
+            assert.strictEqual(result.line, 9);
+        });
+
         test('evaluate with explicit frameId', async () => {
             const stack = await callTool('debug_inspect', { action: 'stackTrace' });
             const frameId = stack.frames[0].id;
@@ -225,6 +611,28 @@ suite('Edge Cases and Optional Parameters', function () {
             assert.strictEqual(result.result, '30');
         });
 
+        test('stepBack explains when the adapter cannot reverse', async () => {
+            // js-debug does not advertise supportsStepBack
+            const result = await callTool('debug_execute', { action: 'stepBack' });
+
+            assert.strictEqual(result.supported, false);
+            assert.ok(result.message.includes('does not support reverse debugging'),
+                `unexpected message: ${result.message}`);
+        });
+
+        test('jumpTo follows the adapter capability', async () => {
+            // Jumping to the current line keeps the execution state for the tests below
+            const result = await callTool('debug_execute', { action: 'jumpTo', line: 9 });
+
+            if (!adapter.of().supportsGotoTargetsRequest) {
+                assert.strictEqual(result.supported, false);
+                assert.ok(result.message.includes('does not support jumping'), `unexpected message: ${result.message}`);
+                return;
+            }
+            assert.ok(result.file.endsWith('app.js'));
+            assert.strictEqual(result.line, 9);
+        });
+
         // Destructive tests (change execution state, must be last)
 
         test('stepOver with granularity parameter', async () => {
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DebugServer } from '../debug-server';
+import { TEST_PORT, callTool } from './test-helpers';
+
+suite('Exception Filter Management', function () {
+    this.timeout(30000);
+
+    let server: DebugServer;
+    let exceptionAppPath: string;
+
+    suiteSetup(async () => {
+        server = new DebugServer(TEST_PORT);
+        await server.start();
+
+        const wsFolder = vscode.workspace.workspaceFolders?.[0];
+        assert.ok(wsFolder, 'workspace folder must exist');
+        exceptionAppPath = path.join(wsFolder.uri.fsPath, 'exception-app.js');
+    });
+
+    suiteTeardown(async () => {
+        if (vscode.debug.activeDebugSession) {
+            await vscode.debug.stopDebugging();
+        }
+        for (let i = 0; i < 20; i++) {
+            if (!vscode.debug.activeDebugSession) { break; }
+            await new Promise(resolve => setTimeout(resolve, 250));
+        }
+        vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+        await server.stop();
+    });
+
+    test('exceptionFilters without session throws', async () => {
+        await assert.rejects(
+            callTool('debug_breakpoints', { action: 'exceptionFilters' }),
+            /No active debug session/
+        );
+    });
+
+    // These tests MUST run in order — each depends on the debug state from the prior test.
+
+    test('launch stops at breakpoint before exception', async () => {
+        await callTool('debug_breakpoints', { action: 'set', file: exceptionAppPath, line: 7 });
+
+        const result = await callTool('debug_execute', {
+            action: 'launch',
+            configurationName: 'Launch Exception App',
+        });
+
+        assert.strictEqual(result.line, 7);
+    });
+
+    test('exceptionFilters lists the adapter filters', async () => {
+        const result = await callTool('debug_breakpoints', { action: 'exceptionFilters' });
+
+        assert.ok(result.count > 0, 'js-debug should offer exception filters');
+        const uncaught = result.filters.find((f: any) => f.filterId === 'uncaught');
+        assert.ok(uncaught, `expected an uncaught filter, got: ${result.filters.map((f: any) => f.filterId).join(', ')}`);
+        assert.ok(uncaught.label, 'filter should have a label');
+        assert.strictEqual(typeof uncaught.enabled, 'boolean');
+    });
+
+    test('setExceptionFilter with unknown filterId throws', async () => {
+        await assert.rejects(
+            callTool('debug_breakpoints', { action: 'setExceptionFilter', filterId: 'bogus' }),
+            /Exception filter "bogus" not found/
+        );
+    });
+
+    test('setExceptionFilter enables the uncaught filter', async () => {
+        const result = await callTool('debug_breakpoints', {
+            action: 'setExceptionFilter',
+            filterId: 'uncaught',
+            enabled: true,
+        });
+
+        const uncaught = result.filters.find((f: any) => f.filterId === 'uncaught');
+        assert.strictEqual(uncaught.enabled, true);
+    });
+
+    test('continue stops at the uncaught exception', async () => {
+        const result = await callTool('debug_execute', { action: 'continue' });
+
+        assert.strictEqual(result.line, 8, 'should stop at the throw line');
+        assert.strictEqual(result.reason, 'exception');
+    });
+
+    test('setExceptionFilter disables the uncaught filter', async () => {
+        const result = await callTool('debug_breakpoints', {
+            action: 'setExceptionFilter',
+            filterId: 'uncaught',
+            enabled: false,
+        });
+
+        const uncaught = result.filters.find((f: any) => f.filterId === 'uncaught');
+        assert.strictEqual(uncaught.enabled, false);
+    });
+
+    test('stop debug session', async () => {
+        const result = await callTool('debug_execute', { action: 'stop' });
+        assert.ok(
+            result.message === 'Debug session stopped' || result.message === 'No active debug session',
+            `unexpected message: ${result.message}`
+        );
+    });
+});
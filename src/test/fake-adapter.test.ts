@@ -0,0 +1,189 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DebugServer } from '../debug-server';
+import { TEST_PORT, callTool } from './test-helpers';
+
+// js-debug, which runs the other suites, supports none of the native or optional
+// requests below. These tests drive the actions against a fake session that answers
+// them, so the code past the capability checks runs too.
+
+const capabilities = {
+    supportsDataBreakpoints: true,
+    supportsDisassembleRequest: true,
+    supportsReadMemoryRequest: true,
+    supportsWriteMemoryRequest: true,
+    supportsModulesRequest: true,
+    supportsLoadedSourcesRequest: true,
+    supportsSetExpression: true,
+    supportsGotoTargetsRequest: true,
+};
+
+// Answers DAP requests like a native debug adapter paused in main() at 0x1000
+function createFakeSession(onRequest: (command: string, args: any) => void): vscode.DebugSession {
+    const responses: Record<string, (args: any) => any> = {
+        threads: () => ({ threads: [{ id: 1, name: 'main' }] }),
+        stackTrace: () => ({
+            stackFrames: [{ id: 7, name: 'main', line: 12, column: 1, source: { path: '/src/main.c' }, instructionPointerReference: '0x1000' }],
+        }),
+        disassemble: args => ({
+            instructions: Array.from({ length: args.instructionCount }, (_, i) => ({
+                address: `0x${(0x1000 + (args.instructionOffset + i) * 4).toString(16)}`,
+                instruction: i % 2 ? 'nop' : 'mov x0, x1',
+            })),
+        }),
+        readMemory: args => ({ address: '0x2000', data: Buffer.from('Hello, world!\0').subarray(0, args.count).toString('base64') }),
+        writeMemory: args => ({ bytesWritten: Buffer.from(args.data, 'base64').length }),
+        modules: () => ({ modules: [{ id: 1, name: 'libc.so.6', path: '/lib/libc.so.6', symbolStatus: 'Symbols loaded' }], totalModules: 1 }),
+        loadedSources: () => ({ sources: [{ name: 'bundle.js', path: '/out/bundle.js', sources: [{ name: 'main.ts', path: '/src/main.ts' }] }] }),
+        setExpression: args => ({ value: args.value, type: 'int' }),
+        dataBreakpointInfo: args => ({ dataId: `data:${args.name}`, description: args.name, accessTypes: ['write', 'readWrite'] }),
+        setDataBreakpoints: args => ({ breakpoints: args.breakpoints.map(() => ({ verified: true })) }),
+        gotoTargets: args => ({ targets: [{ id: 3, label: `line ${args.line}`, line: args.line }] }),
+        goto: () => ({}),
+    };
+    return {
+        id: 'fake-native-session',
+        type: 'fake-native',
+        name: 'Fake native session',
+        workspaceFolder: undefined,
+        configuration: { type: 'fake-native', name: 'Fake native session', request: 'launch' },
+        customRequest: async (command: string, args?: any) => {
+            onRequest(command, args);
+            const respond = responses[command];
+            if (!respond) {
+                throw new Error(`Fake adapter does not handle ${command}`);
+            }
+            return respond(args);
+        },
+        getDebugProtocolBreakpoint: async () => undefined,
+    };
+}
+
+suite('Capability-gated actions on a fake adapter', function () {
+    this.timeout(15000);
+
+    let server: DebugServer;
+    let session: vscode.DebugSession;
+    let requests: Array<{ command: string; args: any }>;
+
+    suiteSetup(async () => {
+        server = new DebugServer(TEST_PORT);
+        await server.start();
+
+        requests = [];
+        session = createFakeSession((command, args) => {
+            requests.push({ command, args });
+            // Like an adapter, report the stop that follows a goto after answering it
+            if (command === 'goto') {
+                setTimeout(() => (server as any).stoppedEmitter.fire({ session, body: { reason: 'goto', threadId: 1, allThreadsStopped: true } }), 50);
+            }
+        });
+        // Register the session as the tracker would for a real one: started, initialized and paused
+        const internals = server as any;
+        internals.sessions.set(session.id, session);
+        internals.getSessionState(session).capabilities = capabilities;
+        internals.markStopped(session, { threadId: 1, reason: 'breakpoint', allThreadsStopped: true });
+    });
+
+    suiteTeardown(async () => {
+        await server.stop();
+    });
+
+    setup(() => {
+        requests = [];
+    });
+
+    const lastRequest = (command: string) => [...requests].reverse().find(r => r.command === command)?.args;
+
+    test('disassemble lists instructions around the instruction pointer', async () => {
+        const result = await callTool('debug_inspect', { action: 'disassemble', count: 4, sessionId: session.id });
+
+        assert.strictEqual(result.memoryReference, '0x1000');
+        assert.strictEqual(lastRequest('disassemble').instructionOffset, -2);
+        assert.deepStrictEqual(result.instructions.map((i: any) => i.address), ['0xff8', '0xffc', '0x1000', '0x1004']);
+        assert.deepStrictEqual(result.instructions.map((i: any) => !!i.current), [false, false, true, false]);
+    });
+
+    test('readMemory returns a hex dump', async () => {
+        const result = await callTool('debug_inspect', { action: 'readMemory', memoryReference: '0x2000', count: 5, sessionId: session.id });
+
+        assert.strictEqual(result.bytes, 5);
+        assert.strictEqual(result.hexDump.length, 1);
+        assert.ok(result.hexDump[0].startsWith('0x00002000  48 65 6c 6c 6f'), `unexpected dump: ${result.hexDump[0]}`);
+        assert.ok(result.hexDump[0].endsWith('|Hello|'), `unexpected dump: ${result.hexDump[0]}`);
+    });
+
+    test('writeMemory sends the bytes once the user setting allows it', async () => {
+        const config = vscode.workspace.getConfiguration('mcpDebug');
+        await config.update('allowWriteMemory', true, vscode.ConfigurationTarget.Global);
+        try {
+            const result = await callTool('debug_inspect', {
+                action: 'writeMemory',
+                memoryReference: '0x2000',
+                data: 'dead beef',
+                sessionId: session.id,
+            });
+
+            assert.strictEqual(result.bytesWritten, 4);
+            assert.strictEqual(Buffer.from(lastRequest('writeMemory').data, 'base64').toString('hex'), 'deadbeef');
+        } finally {
+            await config.update('allowWriteMemory', undefined, vscode.ConfigurationTarget.Global);
+        }
+    });
+
+    test('modules lists the loaded libraries', async () => {
+        const result = await callTool('debug_inspect', { action: 'modules', sessionId: session.id });
+
+        assert.strictEqual(result.count, 1);
+        assert.strictEqual(result.modules[0].path, '/lib/libc.so.6');
+        assert.strictEqual(result.modules[0].symbolStatus, 'Symbols loaded');
+    });
+
+    test('loadedSources flattens nested sources', async () => {
+        const result = await callTool('debug_inspect', { action: 'loadedSources', sessionId: session.id });
+
+        assert.deepStrictEqual(result.sources.map((s: any) => [s.path, s.parent]), [
+            ['/out/bundle.js', undefined],
+            ['/src/main.ts', '/out/bundle.js'],
+        ]);
+    });
+
+    test('setVariable assigns to an expression in the top frame', async () => {
+        const result = await callTool('debug_inspect', { action: 'setVariable', expression: 'count', value: '42', sessionId: session.id });
+
+        assert.strictEqual(result.value, '42');
+        assert.deepStrictEqual(lastRequest('setExpression'), { expression: 'count', value: '42', frameId: 7 });
+    });
+
+    test('data breakpoints are sent along with those set in the VS Code UI', async () => {
+        // A data breakpoint VS Code set from its Breakpoints view
+        (server as any).trackDataBreakpointRequest(session, { breakpoints: [{ dataId: 'data:ui', accessType: 'read' }] });
+
+        const result = await callTool('debug_breakpoints', {
+            action: 'set',
+            variableName: 'count',
+            variablesReference: 5,
+            sessionId: session.id,
+        });
+
+        assert.strictEqual(result.dataId, 'data:count');
+        assert.strictEqual(result.verified, true);
+        assert.deepStrictEqual(lastRequest('setDataBreakpoints').breakpoints.map((bp: any) => bp.dataId), ['data:count', 'data:ui']);
+
+        const list = await callTool('debug_breakpoints', { action: 'list' });
+        assert.deepStrictEqual(list.dataBreakpoints.map((bp: any) => [bp.sessionId, bp.variableName]), [[session.id, 'count']]);
+
+        const removed = await callTool('debug_breakpoints', { action: 'remove', variableName: 'count', sessionId: session.id });
+        assert.strictEqual(removed.removed, 1);
+        assert.deepStrictEqual(lastRequest('setDataBreakpoints').breakpoints.map((bp: any) => bp.dataId), ['data:ui']);
+    });
+
+    test('jumpTo moves to the goto target and reports the new stop', async () => {
+        const result = await callTool('debug_execute', { action: 'jumpTo', line: 12, sessionId: session.id, timeout: 5 });
+
+        assert.deepStrictEqual(lastRequest('goto'), { threadId: 1, targetId: 3 });
+        assert.strictEqual(result.reason, 'goto');
+        assert.strictEqual(result.file, '/src/main.c');
+        assert.strictEqual(result.line, 12);
+    });
+});
@@ -0,0 +1,13 @@
+// Test fixture for placing breakpoints by symbol past doc comments
+/**
+ * Splits an order into its parts. Returns one of:
+ *   - the parts, when the order is valid
+ *   - an empty list otherwise
+ */
+function splitOrder(order) {
+    // Orders look like "id:item:quantity"
+    const parts = order.split(':');
+    return parts.length === 3 ? parts : [];
+}
+
+module.exports = { splitOrder };
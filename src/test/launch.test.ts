@@ -1,8 +1,28 @@
 import * as assert from 'assert';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { DebugServer } from '../debug-server';
 import { TEST_PORT, callTool } from './test-helpers';
 
+// Runs `body` with a launch.json section of the first workspace folder replaced by
+// `value`, restoring it afterwards. Skips the test when no folder is open.
+async function withLaunchSection(context: Mocha.Context, section: string, value: any[], body: () => Promise<void>): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        context.skip();
+        return;
+    }
+
+    const launchConfig = vscode.workspace.getConfiguration('launch', workspaceFolder.uri);
+    const original = launchConfig.get(section);
+    await launchConfig.update(section, value, vscode.ConfigurationTarget.WorkspaceFolder);
+    try {
+        await body();
+    } finally {
+        await launchConfig.update(section, original, vscode.ConfigurationTarget.WorkspaceFolder);
+    }
+}
+
 suite('Launch Configuration Resolution', function () {
     this.timeout(15000);
 
@@ -63,10 +83,162 @@ suite('Launch Configuration Resolution', function () {
         const result = await callTool('debug_execute', { action: 'listConfigurations' });
         assert.ok(Array.isArray(result.configurations));
         assert.strictEqual(result.configurations.length, 5);
-        assert.deepStrictEqual(result.configurations[0], { name: 'Launch Program', type: 'node', request: 'launch' });
-        assert.deepStrictEqual(result.configurations[1], { name: 'Launch Tests', type: 'node', request: 'launch' });
-        assert.deepStrictEqual(result.configurations[2], { name: 'Launch Multi-File', type: 'node', request: 'launch' });
-        assert.deepStrictEqual(result.configurations[3], { name: 'Launch Exception App', type: 'node', request: 'launch' });
+        assert.deepStrictEqual(result.configurations[0], { name: 'Launch Program', type: 'node', request: 'launch', folder: 'test-workspace' });
+        assert.deepStrictEqual(result.configurations[1], { name: 'Launch Tests', type: 'node', request: 'launch', folder: 'test-workspace' });
+        assert.deepStrictEqual(result.configurations[2], { name: 'Launch Multi-File', type: 'node', request: 'launch', folder: 'test-workspace' });
+        assert.deepStrictEqual(result.configurations[3], { name: 'Launch Exception App', type: 'node', request: 'launch', folder: 'test-workspace' });
+    });
+
+    test('listConfigurations filtered by folder name', async () => {
+        const result = await callTool('debug_execute', { action: 'listConfigurations', folder: 'test-workspace' });
+        assert.strictEqual(result.configurations.length, 5);
+    });
+
+    test('unknown folder throws with available folders', async () => {
+        await assert.rejects(
+            callTool('debug_execute', { action: 'launch', folder: 'no-such-folder', configurationName: 'Launch Program' }),
+            /Workspace folder "no-such-folder" not found\. Available: test-workspace/
+        );
+    });
+
+    test('inline configuration without type throws', async () => {
+        await assert.rejects(
+            callTool('debug_execute', { action: 'launch', configuration: { program: '/tmp/app.js' } }),
+            /Inline configuration requires a "type"/
+        );
+    });
+
+    test('program shorthand with unknown extension throws', async () => {
+        await assert.rejects(
+            callTool('debug_execute', { action: 'launch', program: '/tmp/app.bin' }),
+            /Cannot infer runtime/
+        );
+    });
+
+    test('program shorthand does not infer a runtime for TypeScript', async () => {
+        await assert.rejects(
+            callTool('debug_execute', { action: 'launch', program: '/tmp/app.ts' }),
+            /Cannot infer runtime/
+        );
+    });
+
+    test('interactive input variables are rejected', async function () {
+        await withLaunchSection(this, 'inputs', [{ id: 'pickArgs', type: 'promptString', description: 'Program arguments' }], async () => {
+            await assert.rejects(
+                callTool('debug_execute', {
+                    action: 'launch',
+                    configuration: { type: 'node', program: '${workspaceFolder}/app.js', args: ['${input:pickArgs}'] },
+                }),
+                /Cannot resolve \$\{input:pickArgs\}: it needs interactive input/
+            );
+        });
+    });
+
+    test('process picker commands are rejected', async () => {
+        await assert.rejects(
+            callTool('debug_execute', {
+                action: 'launch',
+                configuration: { type: 'node', request: 'attach', processId: '${command:pickProcess}' },
+            }),
+            /Cannot resolve \$\{command:pickProcess\}: it needs interactive input/
+        );
+    });
+
+    test('listConfigurations includes compounds', async function () {
+        await withLaunchSection(this, 'compounds', [{ name: 'Program + Tests', configurations: ['Launch Program', 'Launch Tests'] }], async () => {
+            const result = await callTool('debug_execute', { action: 'listConfigurations' });
+            assert.strictEqual(result.configurations.length, 6);
+            assert.deepStrictEqual(result.configurations[5], {
+                name: 'Program + Tests',
+                type: 'compound',
+                configurations: ['Launch Program', 'Launch Tests'],
+                folder: 'test-workspace',
+            });
+        });
+    });
+
+    test('compound with unknown member throws', async function () {
+        await withLaunchSection(this, 'compounds', [{ name: 'Broken Compound', configurations: ['Launch Program', 'Missing Config'] }], async () => {
+            await assert.rejects(
+                callTool('debug_execute', { action: 'launch', configurationName: 'Broken Compound' }),
+                /Configuration "Missing Config" referenced by compound "Broken Compound" not found/
+            );
+        });
+    });
+
+    test('compound with per-call overrides throws', async function () {
+        await withLaunchSection(this, 'compounds', [{ name: 'Program + Tests', configurations: ['Launch Program', 'Launch Tests'] }], async () => {
+            await assert.rejects(
+                callTool('debug_execute', {
+                    action: 'launch',
+                    configurationName: 'Program + Tests',
+                    args: ['--verbose'],
+                    stopOnEntry: true,
+                }),
+                /args, stopOnEntry can't be applied to compound "Program \+ Tests"/
+            );
+        });
+    });
+
+    test('compound launch starts every member session', async function () {
+        await withLaunchSection(this, 'compounds', [{ name: 'Program + Console', configurations: ['Launch Program', 'Launch Console App'] }], async () => {
+            const wsPath = vscode.workspace.workspaceFolders![0].uri.fsPath;
+            // Keep both programs paused so their sessions stay around
+            await callTool('debug_breakpoints', { action: 'set', file: path.join(wsPath, 'app.js'), line: 7 });
+            await callTool('debug_breakpoints', { action: 'set', file: path.join(wsPath, 'console-app.js'), line: 2 });
+            try {
+                const result = await callTool('debug_execute', { action: 'launch', configurationName: 'Program + Console' });
+                assert.strictEqual(result.compound, 'Program + Console');
+                assert.ok(result.message.includes('stopped'), `expected stopped message, got: ${result.message}`);
+
+                // The launch returns on the first stop; the other member may still be starting
+                let names: string[] = [];
+                for (let i = 0; i < 20; i++) {
+                    const sessions = await callTool('debug_inspect', { action: 'sessions' });
+                    names = sessions.sessions.map((s: any) => s.name);
+                    if (names.includes('Launch Program') && names.includes('Launch Console App')) {
+                        break;
+                    }
+                    await new Promise(resolve => setTimeout(resolve, 250));
+                }
+                assert.ok(names.includes('Launch Program'), `Launch Program missing from ${names.join(', ')}`);
+                assert.ok(names.includes('Launch Console App'), `Launch Console App missing from ${names.join(', ')}`);
+            } finally {
+                await vscode.debug.stopDebugging();
+                for (let i = 0; i < 20 && vscode.debug.activeDebugSession; i++) {
+                    await new Promise(resolve => setTimeout(resolve, 250));
+                }
+                vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+            }
+        });
+    });
+
+    test('attach requires debugType', async () => {
+        await assert.rejects(
+            callTool('debug_execute', { action: 'attach', port: 9229 }),
+            /debugType is required/
+        );
+    });
+
+    test('attach requires port or processId', async () => {
+        await assert.rejects(
+            callTool('debug_execute', { action: 'attach', debugType: 'python' }),
+            /port or processId is required/
+        );
+    });
+
+    test('attach rejects unsupported attach mode', async () => {
+        await assert.rejects(
+            callTool('debug_execute', { action: 'attach', debugType: 'java', processId: 1234 }),
+            /not supported for debugType "java"/
+        );
+    });
+
+    test('waitForStop without session throws', async () => {
+        await assert.rejects(
+            callTool('debug_execute', { action: 'waitForStop', timeout: 1 }),
+            /No active debug session/
+        );
     });
 
     test('unknown execute action throws', async () => {
@@ -0,0 +1,217 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DebugServer } from '../debug-server';
+import { TEST_PORT, callTool } from './test-helpers';
+
+suite('Program Output Capture', function () {
+    this.timeout(30000);
+
+    let server: DebugServer;
+    let appPath: string;
+    let sessionId: string;
+
+    suiteSetup(async () => {
+        server = new DebugServer(TEST_PORT);
+        await server.start();
+
+        const wsFolder = vscode.workspace.workspaceFolders?.[0];
+        assert.ok(wsFolder, 'workspace folder must exist');
+        appPath = path.join(wsFolder.uri.fsPath, 'console-app.js');
+    });
+
+    suiteTeardown(async () => {
+        if (vscode.debug.activeDebugSession) {
+            await vscode.debug.stopDebugging();
+        }
+        for (let i = 0; i < 20; i++) {
+            if (!vscode.debug.activeDebugSession) { break; }
+            await new Promise(resolve => setTimeout(resolve, 250));
+        }
+        vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+        await server.stop();
+    });
+
+    // These tests MUST run in order — each depends on the debug state from the prior test.
+
+    test('launch and stop after the program printed', async () => {
+        // Break at line 5 (const y = x + 1), after both console calls
+        await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 5 });
+
+        const result = await callTool('debug_execute', {
+            action: 'launch',
+            configurationName: 'Launch Console App',
+        });
+
+        assert.strictEqual(result.line, 5);
+    });
+
+    test('tail returns the latest output', async () => {
+        const result = await callTool('debug_output', { action: 'tail' });
+
+        assert.ok(result.sessionId, 'should report the session');
+        sessionId = result.sessionId;
+        const text = result.entries.map((e: any) => e.output).join('');
+        assert.ok(text.includes('hello from stdout'), `expected stdout output, got: ${text}`);
+        assert.ok(text.includes('hello from stderr'), `expected stderr output, got: ${text}`);
+        assert.ok(typeof result.nextCursor === 'number');
+    });
+
+    test('read filters by category', async () => {
+        const result = await callTool('debug_output', { action: 'read', category: 'stderr', sessionId });
+
+        assert.ok(result.entries.length > 0, 'should have stderr entries');
+        for (const entry of result.entries) {
+            assert.strictEqual(entry.category, 'stderr');
+        }
+        assert.ok(result.entries.some((e: any) => e.output.includes('hello from stderr')));
+    });
+
+    test('read filters by pattern', async () => {
+        const result = await callTool('debug_output', { action: 'read', pattern: 'hello from std(out|err)', sessionId });
+
+        assert.strictEqual(result.entries.length, 2);
+    });
+
+    test('read with cursor only returns newer output', async () => {
+        const before = await callTool('debug_output', { action: 'tail', limit: 1, sessionId });
+
+        // Run to the end; the program prints 11 on the way
+        await callTool('debug_execute', { action: 'continue' });
+
+        const result = await callTool('debug_output', { action: 'read', cursor: before.nextCursor, sessionId });
+        const text = result.entries.map((e: any) => e.output).join('');
+        assert.ok(text.includes('11'), `expected new output, got: ${text}`);
+        assert.ok(!text.includes('hello from stdout'), 'should not repeat earlier output');
+    });
+
+    test('output is still readable after the session ended', async () => {
+        const result = await callTool('debug_output', { action: 'read', sessionId });
+
+        assert.strictEqual(result.terminated, true);
+        assert.ok(result.entries.some((e: any) => e.output.includes('hello from stdout')));
+    });
+
+    test('invalid pattern throws', async () => {
+        await assert.rejects(
+            callTool('debug_output', { action: 'read', pattern: '(', sessionId }),
+            /Invalid pattern/
+        );
+    });
+
+    test('limit below 1 throws', async () => {
+        await assert.rejects(
+            callTool('debug_output', { action: 'tail', limit: 0, sessionId }),
+            /limit must be a positive integer/
+        );
+    });
+
+    test('clear drops the captured output', async () => {
+        const result = await callTool('debug_output', { action: 'clear', sessionId });
+        assert.ok(result.cleared > 0);
+
+        const after = await callTool('debug_output', { action: 'read', sessionId });
+        assert.deepStrictEqual(after.entries, []);
+    });
+});
+
+suite('Logpoint Hit Collection', function () {
+    this.timeout(30000);
+
+    let server: DebugServer;
+    let appPath: string;
+
+    suiteSetup(async () => {
+        server = new DebugServer(TEST_PORT);
+        await server.start();
+
+        const wsFolder = vscode.workspace.workspaceFolders?.[0];
+        assert.ok(wsFolder, 'workspace folder must exist');
+        appPath = path.join(wsFolder.uri.fsPath, 'app.js');
+    });
+
+    suiteTeardown(async () => {
+        if (vscode.debug.activeDebugSession) {
+            await vscode.debug.stopDebugging();
+        }
+        for (let i = 0; i < 20; i++) {
+            if (!vscode.debug.activeDebugSession) { break; }
+            await new Promise(resolve => setTimeout(resolve, 250));
+        }
+        vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+        await server.stop();
+    });
+
+    test('logpoints groups logged messages by location', async () => {
+        await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 2, logMessage: 'adding {a} and {b}' });
+        await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 10, logMessage: 'result is {result}' });
+        // Stop at line 11 so both logpoints have been hit
+        await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 11 });
+
+        const launch = await callTool('debug_execute', {
+            action: 'launch',
+            configurationName: 'Launch Program',
+        });
+        assert.strictEqual(launch.line, 11);
+
+        const result = await callTool('debug_output', { action: 'logpoints' });
+        assert.strictEqual(result.logpoints.length, 2);
+
+        const helper = result.logpoints.find((l: any) => l.line === 2);
+        assert.strictEqual(helper.count, 1);
+        assert.strictEqual(helper.hits[0].output, 'adding 10 and 20');
+
+        const doubled = result.logpoints.find((l: any) => l.line === 10);
+        assert.strictEqual(doubled.count, 1);
+        assert.strictEqual(doubled.hits[0].output, 'result is 30');
+    });
+
+    test('logpoints leave out program output from the same line', async () => {
+        await callTool('debug_execute', { action: 'stop' });
+        for (let i = 0; i < 20; i++) {
+            if (!vscode.debug.activeDebugSession) { break; }
+            await new Promise(resolve => setTimeout(resolve, 250));
+        }
+        vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+        // Line 11 is console.log(doubled), which prints "60" from the same location
+        await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 11, logMessage: 'doubled is {doubled}' });
+
+        await callTool('debug_execute', { action: 'launch', configurationName: 'Launch Program' });
+
+        const result = await callTool('debug_output', { action: 'logpoints' });
+        const printing = result.logpoints.find((l: any) => l.line === 11);
+        assert.strictEqual(printing.count, 1, `unexpected hits: ${JSON.stringify(printing.hits)}`);
+        assert.strictEqual(printing.hits[0].output, 'doubled is 60');
+    });
+
+    test('logpoints moved by the adapter keep their hits', async () => {
+        for (let i = 0; i < 20; i++) {
+            if (!vscode.debug.activeDebugSession) { break; }
+            await new Promise(resolve => setTimeout(resolve, 250));
+        }
+        vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+        // Line 13 is blank; the adapter binds the logpoint to the main() call below it
+        const set = await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 13, logMessage: 'calling main' });
+
+        await callTool('debug_execute', { action: 'launch', configurationName: 'Launch Program' });
+
+        const result = await callTool('debug_output', { action: 'logpoints' });
+        const moved = result.logpoints.find((l: any) => l.line === 13);
+        assert.strictEqual(moved.count, 1, `unexpected hits: ${JSON.stringify(moved)} (set: ${JSON.stringify(set)})`);
+        assert.strictEqual(moved.hits[0].output, 'calling main');
+    });
+
+    test('a new logpoint does not inherit the bound line of a removed one', async () => {
+        for (let i = 0; i < 20; i++) {
+            if (!vscode.debug.activeDebugSession) { break; }
+            await new Promise(resolve => setTimeout(resolve, 250));
+        }
+        vscode.debug.removeBreakpoints(vscode.debug.breakpoints);
+        // No session runs, so nothing has bound this logpoint yet
+        await callTool('debug_breakpoints', { action: 'set', file: appPath, line: 13, logMessage: 'calling main again' });
+
+        const result = await callTool('debug_output', { action: 'logpoints' });
+        const fresh = result.logpoints.find((l: any) => l.line === 13);
+        assert.strictEqual(fresh.actualLine, undefined);
+    });
+});
@@ -28,17 +28,22 @@ suite('Package.json Commands', () => {
         assert.strictEqual(entry.when, 'view == mcpDebugView && viewItem == claudeCodeCommand');
         assert.strictEqual(entry.group, 'inline');
     });
+
+    test('allowWriteMemory can only be set by the user', () => {
+        const setting = packageJson.contributes.configuration.properties['mcpDebug.allowWriteMemory'];
+        assert.strictEqual(setting.scope, 'application');
+    });
 });
 
 suite('Schema Consistency', () => {
 
-    test('tools array has exactly 3 tools', () => {
-        assert.strictEqual(tools.length, 3);
+    test('tools array has exactly 4 tools', () => {
+        assert.strictEqual(tools.length, 4);
     });
 
     test('tool names are correct', () => {
         const names = tools.map(t => t.name);
-        assert.deepStrictEqual(names, ['debug_execute', 'debug_breakpoints', 'debug_inspect']);
+        assert.deepStrictEqual(names, ['debug_execute', 'debug_breakpoints', 'debug_inspect', 'debug_output']);
     });
 
     test('all tools require action parameter', () => {
@@ -55,7 +60,11 @@ suite('Schema Consistency', () => {
         const actionEnum = (tool.inputSchema.properties.action as any).enum;
         assert.deepStrictEqual(
             actionEnum,
-            ['launch', 'stop', 'continue', 'stepOver', 'stepIn', 'stepOut', 'listConfigurations']
+            [
+                'launch', 'attach', 'stop', 'continue', 'stepOver', 'stepIn', 'stepOut', 'stepBack',
+                'reverseContinue', 'restartFrame', 'restart', 'jumpTo', 'runToLine', 'pause', 'waitForStop',
+                'listConfigurations',
+            ]
         );
     });
 
@@ -64,14 +73,18 @@ suite('Schema Consistency', () => {
         const props = Object.keys(tool.inputSchema.properties);
         assert.deepStrictEqual(
             props.sort(),
-            ['action', 'configurationName', 'granularity', 'noDebug', 'threadId'].sort()
+            [
+                'action', 'args', 'configuration', 'configurationName', 'cwd', 'debugType', 'env', 'file', 'folder',
+                'frameId', 'granularity', 'host', 'ignoreBreakpoints', 'line', 'noDebug', 'port', 'processId', 'program',
+                'runtime', 'sessionId', 'snippet', 'stopOnEntry', 'threadId', 'timeout',
+            ].sort()
         );
     });
 
     test('debug_breakpoints has correct action enum', () => {
         const tool = tools.find(t => t.name === 'debug_breakpoints')!;
         const actionEnum = (tool.inputSchema.properties.action as any).enum;
-        assert.deepStrictEqual(actionEnum, ['set', 'remove', 'list']);
+        assert.deepStrictEqual(actionEnum, ['set', 'remove', 'list', 'exceptionFilters', 'setExceptionFilter']);
     });
 
     test('debug_breakpoints has correct properties', () => {
@@ -79,14 +92,23 @@ suite('Schema Consistency', () => {
         const props = Object.keys(tool.inputSchema.properties);
         assert.deepStrictEqual(
             props.sort(),
-            ['action', 'condition', 'file', 'hitCondition', 'line', 'logMessage'].sort()
+            [
+                'accessType', 'action', 'condition', 'enabled', 'file', 'filterId', 'functionName', 'hitCondition',
+                'line', 'logMessage', 'sessionId', 'symbol', 'variableName', 'variablesReference',
+            ].sort()
         );
     });
 
     test('debug_inspect has correct action enum', () => {
         const tool = tools.find(t => t.name === 'debug_inspect')!;
         const actionEnum = (tool.inputSchema.properties.action as any).enum;
-        assert.deepStrictEqual(actionEnum, ['evaluate', 'stackTrace']);
+        assert.deepStrictEqual(
+            actionEnum,
+            [
+                'evaluate', 'stackTrace', 'threads', 'scopes', 'variables', 'setVariable', 'disassemble', 'readMemory',
+                'writeMemory', 'source', 'modules', 'loadedSources', 'sessions',
+            ]
+        );
     });
 
     test('debug_inspect has correct properties', () => {
@@ -94,7 +116,26 @@ suite('Schema Consistency', () => {
         const props = Object.keys(tool.inputSchema.properties);
         assert.deepStrictEqual(
             props.sort(),
-            ['action', 'context', 'expression', 'frameId', 'levels', 'startFrame', 'threadId'].sort()
+            [
+                'action', 'context', 'contextLines', 'count', 'data', 'depth', 'expression', 'filter', 'frameId', 'levels',
+                'maxChildren', 'memoryReference', 'offset', 'sessionId', 'start', 'startFrame', 'threadId', 'value',
+                'variableName', 'variablesReference',
+            ].sort()
+        );
+    });
+
+    test('debug_output has correct action enum', () => {
+        const tool = tools.find(t => t.name === 'debug_output')!;
+        const actionEnum = (tool.inputSchema.properties.action as any).enum;
+        assert.deepStrictEqual(actionEnum, ['read', 'tail', 'clear', 'logpoints']);
+    });
+
+    test('debug_output has correct properties', () => {
+        const tool = tools.find(t => t.name === 'debug_output')!;
+        const props = Object.keys(tool.inputSchema.properties);
+        assert.deepStrictEqual(
+            props.sort(),
+            ['action', 'category', 'cursor', 'limit', 'pattern', 'sessionId'].sort()
         );
     });
 
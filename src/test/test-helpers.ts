@@ -1,7 +1,33 @@
+import * as assert from 'assert';
 import * as http from 'http';
+import * as vscode from 'vscode';
 
 export const TEST_PORT = 14711;
 
+// Records the capabilities each debug adapter reports in its initialize response,
+// independently of the server, so tests can pin the outcome of capability-gated actions
+export function trackAdapterCapabilities(): { of(session?: vscode.DebugSession): any; dispose(): void } {
+    const capabilities = new Map<string, any>();
+    const disposable = vscode.debug.registerDebugAdapterTrackerFactory('*', {
+        createDebugAdapterTracker: (session: vscode.DebugSession) => ({
+            onDidSendMessage: (message: any) => {
+                if (message.type === 'response' && message.command === 'initialize' && message.success) {
+                    capabilities.set(session.id, message.body ?? {});
+                }
+            },
+        }),
+    });
+    return {
+        of(session = vscode.debug.activeDebugSession) {
+            assert.ok(session, 'no active debug session');
+            const reported = capabilities.get(session.id);
+            assert.ok(reported, `initialize response of session "${session.name}" was not seen`);
+            return reported;
+        },
+        dispose: () => disposable.dispose(),
+    };
+}
+
 export function callTool(toolName: string, args: any): Promise<any> {
     return new Promise((resolve, reject) => {
         const data = JSON.stringify({
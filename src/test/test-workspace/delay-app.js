@@ -0,0 +1,6 @@
+// Waits between two steps so tests can observe the program while it runs
+const started = Date.now();
+setTimeout(() => {
+    const elapsed = Date.now() - started;
+    console.log(`resumed after ${elapsed}ms`);
+}, 1500);
@@ -0,0 +1,11 @@
+// Busy-loops for a minute so tests have a running program to interrupt
+function spin() {
+    let counter = 0;
+    const end = Date.now() + 60000;
+    while (Date.now() < end) {
+        counter++;
+    }
+    return counter;
+}
+
+spin();